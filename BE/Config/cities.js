@@ -0,0 +1,53 @@
+// Cities available for Passport mode, keyed by id with their [longitude, latitude].
+// The app bundles the same ids with display names.
+const CITIES = {
+  'hanoi': [105.8342, 21.0278],
+  'ho-chi-minh-city': [106.6297, 10.8231],
+  'da-nang': [108.2022, 16.0544],
+  'hai-phong': [106.6881, 20.8449],
+  'can-tho': [105.7469, 10.0452],
+  'nha-trang': [109.1967, 12.2388],
+  'da-lat': [108.4583, 11.9404],
+  'hue': [107.5909, 16.4637],
+  'vung-tau': [107.0843, 10.3460],
+  'phu-quoc': [103.9840, 10.2899],
+  'quy-nhon': [109.2196, 13.7830],
+  'ha-long': [107.0448, 20.9599],
+  'bangkok': [100.5018, 13.7563],
+  'singapore': [103.8198, 1.3521],
+  'kuala-lumpur': [101.6869, 3.1390],
+  'jakarta': [106.8456, -6.2088],
+  'manila': [120.9842, 14.5995],
+  'phnom-penh': [104.9282, 11.5564],
+  'vientiane': [102.6331, 17.9757],
+  'seoul': [126.9780, 37.5665],
+  'tokyo': [139.6503, 35.6762],
+  'osaka': [135.5023, 34.6937],
+  'taipei': [121.5654, 25.0330],
+  'hong-kong': [114.1694, 22.3193],
+  'shanghai': [121.4737, 31.2304],
+  'beijing': [116.4074, 39.9042],
+  'dubai': [55.2708, 25.2048],
+  'sydney': [151.2093, -33.8688],
+  'melbourne': [144.9631, -37.8136],
+  'london': [-0.1276, 51.5072],
+  'paris': [2.3522, 48.8566],
+  'berlin': [13.4050, 52.5200],
+  'amsterdam': [4.9041, 52.3676],
+  'prague': [14.4378, 50.0755],
+  'rome': [12.4964, 41.9028],
+  'barcelona': [2.1734, 41.3851],
+  'moscow': [37.6173, 55.7558],
+  'new-york': [-74.0060, 40.7128],
+  'los-angeles': [-118.2437, 34.0522],
+  'san-francisco': [-122.4194, 37.7749],
+  'toronto': [-79.3832, 43.6532],
+  'vancouver': [-123.1207, 49.2827]
+};
+
+const CITY_KEYS = Object.keys(CITIES);
+
+module.exports = {
+  CITIES,
+  CITY_KEYS
+};
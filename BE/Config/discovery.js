@@ -0,0 +1,35 @@
+// Discovery ranking configuration. Every value can be overridden
+// through the environment, e.g. DISCOVERY_WEIGHT_DISTANCE=0.5
+
+const numberFromEnv = (name, fallback) => {
+  const value = parseFloat(process.env[name]);
+  return Number.isNaN(value) ? fallback : value;
+};
+
+// How much each compatibility component (each scored 0-1) contributes to the final score
+const SCORE_WEIGHTS = {
+  distance: numberFromEnv('DISCOVERY_WEIGHT_DISTANCE', 0.25),
+  recency: numberFromEnv('DISCOVERY_WEIGHT_RECENCY', 0.2),
+  sharedInterests: numberFromEnv('DISCOVERY_WEIGHT_SHARED_INTERESTS', 0.2),
+  mutualFit: numberFromEnv('DISCOVERY_WEIGHT_MUTUAL_FIT', 0.25),
+  completeness: numberFromEnv('DISCOVERY_WEIGHT_COMPLETENESS', 0.1)
+};
+
+// Number of nearest candidates that get scored for each discover request
+const CANDIDATE_POOL_SIZE = numberFromEnv('DISCOVERY_CANDIDATE_POOL_SIZE', 200);
+
+// A user last active this many hours ago gets half of the recency score
+const RECENCY_HALF_LIFE_HOURS = numberFromEnv('DISCOVERY_RECENCY_HALF_LIFE_HOURS', 24);
+
+// When the deck runs out, these relaxed preferences are tried (in order) to suggest how to see more people:
+// the max distance multiplied by each factor, and the age range widened by each number of years on both ends
+const DISTANCE_EXPANSION_FACTORS = [1.5, 2, 4];
+const AGE_EXPANSION_YEARS = [3, 5, 10];
+
+module.exports = {
+  SCORE_WEIGHTS,
+  CANDIDATE_POOL_SIZE,
+  RECENCY_HALF_LIFE_HOURS,
+  DISTANCE_EXPANSION_FACTORS,
+  AGE_EXPANSION_YEARS
+};
@@ -0,0 +1,36 @@
+// Curated interest catalog. Users can only pick from these keys;
+// the app maps each key to a display label.
+const INTERESTS = [
+  'travel',
+  'music',
+  'movies',
+  'reading',
+  'cooking',
+  'coffee',
+  'food',
+  'fitness',
+  'yoga',
+  'running',
+  'football',
+  'swimming',
+  'hiking',
+  'photography',
+  'art',
+  'dancing',
+  'gaming',
+  'technology',
+  'fashion',
+  'pets',
+  'karaoke',
+  'camping',
+  'volunteering',
+  'languages'
+];
+
+// Maximum number of interests a user can pick
+const MAX_INTERESTS = 10;
+
+module.exports = {
+  INTERESTS,
+  MAX_INTERESTS
+};
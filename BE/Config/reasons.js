@@ -0,0 +1,22 @@
+// Reasons a user can give when unmatching or reporting someone;
+// the app maps each key to a display label.
+const UNMATCH_REASONS = [
+  'no_connection',
+  'not_responding',
+  'inappropriate',
+  'met_someone',
+  'other'
+];
+
+const REPORT_REASONS = [
+  'fake_profile',
+  'harassment',
+  'spam',
+  'underage',
+  'other'
+];
+
+module.exports = {
+  UNMATCH_REASONS,
+  REPORT_REASONS
+};
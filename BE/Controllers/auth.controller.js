@@ -25,7 +25,7 @@ const register = async (req, res) => {
       });
     }
 
-    const { name, email, password, age, gender, interestedIn, bio, location } = req.body;
+    const { name, email, password, age, gender, interestedIn, bio, location, interests } = req.body;
 
     // Check MongoDB connection
     if (require('mongoose').connection.readyState !== 1) {
@@ -38,6 +38,7 @@ const register = async (req, res) => {
         gender,
         interestedIn,
         bio: bio ? bio.trim() : '',
+        interests: interests ? [...new Set(interests)] : [],
         location: location || { 
           type: 'Point',
           coordinates: [106.6297, 10.8231],
@@ -78,6 +79,7 @@ const register = async (req, res) => {
       gender,
       interestedIn,
       bio: bio ? bio.trim() : '',
+      interests: interests ? [...new Set(interests)] : [],
       location: location || { 
         type: 'Point',
         coordinates: [0, 0],
@@ -269,7 +271,7 @@ const getCurrentUser = async (req, res) => {
   try {
     const user = await User.findById(req.user._id)
       .populate('matches', 'users lastActivity')
-      .select('-password -swipedUsers');
+      .select('-password');
 
     if (!user) {
       return res.status(404).json({
@@ -306,7 +308,7 @@ const updateProfile = async (req, res) => {
       });
     }
 
-    const allowedUpdates = ['name', 'age', 'bio', 'location', 'preferences'];
+    const allowedUpdates = ['name', 'age', 'bio', 'location', 'preferences', 'interestedIn', 'interests', 'isIncognito'];
     const updates = {};
 
     allowedUpdates.forEach(field => {
@@ -318,12 +320,33 @@ const updateProfile = async (req, res) => {
     // Trim string fields
     if (updates.name) updates.name = updates.name.trim();
     if (updates.bio) updates.bio = updates.bio.trim();
+    if (updates.interests) updates.interests = [...new Set(updates.interests)];
+
+    // Merge partial preference updates into the saved preferences
+    if (updates.preferences) {
+      const currentPreferences = req.user.toObject().preferences || {};
+      updates.preferences = {
+        ...currentPreferences,
+        ...updates.preferences,
+        ageRange: {
+          ...currentPreferences.ageRange,
+          ...updates.preferences.ageRange
+        }
+      };
+
+      if (updates.preferences.ageRange.min > updates.preferences.ageRange.max) {
+        return res.status(400).json({
+          success: false,
+          message: 'Minimum age cannot be greater than maximum age'
+        });
+      }
+    }
 
     const user = await User.findByIdAndUpdate(
       req.user._id,
       updates,
       { new: true, runValidators: true }
-    ).select('-password -swipedUsers');
+    ).select('-password');
 
     if (!user) {
       return res.status(404).json({
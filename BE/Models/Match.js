@@ -1,4 +1,8 @@
 const mongoose = require('mongoose');
+const { UNMATCH_REASONS } = require('../Config/reasons');
+
+// Identifies a pair of users regardless of who swiped first
+const getPairKey = userIds => userIds.map(id => id.toString()).sort().join('_');
 
 const matchSchema = new mongoose.Schema({
   users: [{
@@ -6,6 +10,9 @@ const matchSchema = new mongoose.Schema({
     ref: 'User',
     required: true
   }],
+  pairKey: {
+    type: String
+  },
   messages: [{
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Message'
@@ -31,7 +38,17 @@ const matchSchema = new mongoose.Schema({
   unmatchedAt: {
     type: Date,
     default: null
-  }
+  },
+  unmatchReason: {
+    type: String,
+    enum: [...UNMATCH_REASONS, null],
+    default: null
+  },
+  // Users who have opened the match; it is shown as new to the others
+  seenBy: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }]
 }, {
   timestamps: true,
   toJSON: { virtuals: true },
@@ -43,6 +60,19 @@ matchSchema.index({ users: 1 });
 matchSchema.index({ lastActivity: -1 });
 matchSchema.index({ isActive: 1 });
 matchSchema.index({ createdAt: -1 });
+// Only one active match per pair of users (unmatched ones are kept for history)
+matchSchema.index(
+  { pairKey: 1 },
+  { unique: true, partialFilterExpression: { isActive: true, pairKey: { $exists: true } } }
+);
+
+// Keep the pair key in sync with the users
+matchSchema.pre('validate', function(next) {
+  if (this.isModified('users')) {
+    this.pairKey = getPairKey(this.users);
+  }
+  next();
+});
 
 // Ensure only 2 users per match
 matchSchema.pre('save', function(next) {
@@ -61,14 +91,57 @@ matchSchema.virtual('otherUser').get(function() {
   };
 });
 
-// Static method to find matches for a user
-matchSchema.statics.findUserMatches = async function(userId, page = 1, limit = 20) {
+// A standalone mongod has no transactions
+const isTransactionUnsupported = error =>
+  error.code === 20 || /replica set member or mongos/.test(error.message);
+
+// Run work(session) in a transaction, or without a session (null) when the deployment doesn't support them
+const runInTransaction = async work => {
+  const session = await mongoose.startSession();
+  
+  try {
+    let result;
+    await session.withTransaction(async () => {
+      result = await work(session);
+    });
+    return result;
+  } catch (error) {
+    if (!isTransactionUnsupported(error)) {
+      throw error;
+    }
+    return work(null);
+  } finally {
+    await session.endSession();
+  }
+};
+
+// Active matches of a user, optionally only the new ones (no messages yet) or the conversations,
+// and only with some of the other users or without others (e.g. blocked users)
+const userMatchesFilter = (userId, { type, withUsers, withoutUsers } = {}) => {
+  const filter = { users: userId, isActive: true };
+  
+  if (withoutUsers && withoutUsers.length > 0) {
+    filter.users = { $eq: userId, $nin: withoutUsers };
+  }
+  
+  if (type === 'new') {
+    filter.messages = { $size: 0 };
+  } else if (type === 'conversations') {
+    filter['messages.0'] = { $exists: true };
+  }
+  
+  if (withUsers) {
+    filter.$and = [{ users: { $in: withUsers } }];
+  }
+  
+  return filter;
+};
+
+// Static method to find matches for a user (options: type, withUsers, withoutUsers)
+matchSchema.statics.findUserMatches = async function(userId, page = 1, limit = 20, options = {}) {
   const skip = (page - 1) * limit;
   
-  return this.find({
-    users: userId,
-    isActive: true
-  })
+  return this.find(userMatchesFilter(userId, options))
   .populate({
     path: 'users',
     select: 'name photos age bio lastActive isOnline',
@@ -76,14 +149,64 @@ matchSchema.statics.findUserMatches = async function(userId, page = 1, limit = 2
   })
   .populate({
     path: 'lastMessage',
-    select: 'content sender timestamp messageType isRead'
+    select: 'content sender messageType isRead createdAt'
   })
-  .sort({ lastActivity: -1 })
+  .sort(options.type === 'new' ? { createdAt: -1 } : { lastActivity: -1 })
   .skip(skip)
   .limit(limit)
   .lean();
 };
 
+// Static method to count matches for a user, with the same options as findUserMatches
+matchSchema.statics.countUserMatches = async function(userId, options = {}) {
+  return this.countDocuments(userMatchesFilter(userId, options));
+};
+
+// Static method to create the match between two users who liked each other, or get the one that already exists.
+// Safe when both users like each other at the same moment: the unique pair key allows a single active match,
+// and the match is written together with both users' match lists in one transaction when the deployment
+// supports it (replica set or mongos).
+matchSchema.statics.createForPair = async function(userId1, userId2) {
+  const pairKey = getPairKey([userId1, userId2]);
+  
+  const upsertMatch = async session => {
+    const result = await this.findOneAndUpdate(
+      { pairKey, isActive: true },
+      { $setOnInsert: { users: [userId1, userId2] } },
+      { upsert: true, new: true, session, includeResultMetadata: true }
+    );
+    
+    if (!result.lastErrorObject.updatedExisting) {
+      await mongoose.model('User').updateMany(
+        { _id: { $in: [userId1, userId2] } },
+        { $addToSet: { matches: result.value._id } },
+        { session }
+      );
+    }
+    
+    return result.value;
+  };
+  
+  try {
+    return await runInTransaction(upsertMatch);
+  } catch (error) {
+    // The other request inserted the match first
+    if (error.code === 11000) {
+      return this.findOne({ pairKey, isActive: true });
+    }
+    throw error;
+  }
+};
+
+// Static method to check if one of two users has unmatched the other (they stay apart for good)
+matchSchema.statics.wereUnmatched = async function(userId1, userId2) {
+  return this.exists({
+    users: { $all: [userId1, userId2] },
+    isActive: false,
+    unmatchedAt: { $ne: null }
+  });
+};
+
 // Static method to check if two users are matched
 matchSchema.statics.areUsersMatched = async function(userId1, userId2) {
   return this.findOne({
@@ -100,11 +223,22 @@ matchSchema.methods.addMessage = async function(messageId) {
   await this.save();
 };
 
-// Instance method to unmatch
-matchSchema.methods.unmatch = async function(userId) {
+// Instance method to mark the match as opened by a user
+matchSchema.methods.markSeenBy = async function(userId) {
+  if (this.seenBy.some(id => id.toString() === userId.toString())) {
+    return;
+  }
+  
+  await this.constructor.updateOne({ _id: this._id }, { $addToSet: { seenBy: userId } });
+  this.seenBy.push(userId);
+};
+
+// Instance method to unmatch, with an optional reason from UNMATCH_REASONS
+matchSchema.methods.unmatch = async function(userId, reason = null) {
   this.isActive = false;
   this.unmatchedBy = userId;
   this.unmatchedAt = new Date();
+  this.unmatchReason = reason;
   await this.save();
   
   // Remove match from both users
@@ -122,17 +256,23 @@ matchSchema.methods.unmatch = async function(userId) {
   );
 };
 
+// Instance method to check whether either user in the match has blocked the other
+matchSchema.methods.isBlocked = async function() {
+  const [userId1, userId2] = this.users;
+  return mongoose.model('User').isBlockedBetween(userId1, userId2);
+};
+
 // Instance method to get match details for a specific user
 matchSchema.methods.getMatchDetailsForUser = async function(userId) {
   await this.populate([
     {
       path: 'users',
-      select: 'name photos age bio lastActive isOnline location.city',
+      select: 'name photos age bio lastActive isOnline location.city passport.city',
       match: { _id: { $ne: userId } }
     },
     {
       path: 'lastMessage',
-      select: 'content sender timestamp messageType isRead'
+      select: 'content sender messageType isRead createdAt'
     }
   ]);
   
@@ -140,10 +280,11 @@ matchSchema.methods.getMatchDetailsForUser = async function(userId) {
   
   return {
     _id: this._id,
-    user: otherUser,
+    user: otherUser && otherUser.toPublicJSON(),
     lastMessage: this.lastMessage,
     lastActivity: this.lastActivity,
     createdAt: this.createdAt,
+    isNew: !this.seenBy.some(id => id.toString() === userId.toString()),
     unreadCount: await this.getUnreadCount(userId)
   };
 };
@@ -159,22 +300,17 @@ matchSchema.methods.getUnreadCount = async function(userId) {
   });
 };
 
-// Static method to get match statistics
-matchSchema.statics.getMatchStats = async function(userId) {
-  const totalMatches = await this.countDocuments({
-    users: userId,
-    isActive: true
-  });
+// Static method to get match statistics (withoutUsers leaves out matches with those users, e.g. blocked ones)
+matchSchema.statics.getMatchStats = async function(userId, { withoutUsers } = {}) {
+  const totalMatches = await this.countDocuments(userMatchesFilter(userId, { withoutUsers }));
   
   const recentMatches = await this.countDocuments({
-    users: userId,
-    isActive: true,
+    ...userMatchesFilter(userId, { withoutUsers }),
     createdAt: { $gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) } // Last 7 days
   });
   
   const matchesWithMessages = await this.countDocuments({
-    users: userId,
-    isActive: true,
+    ...userMatchesFilter(userId, { withoutUsers }),
     messages: { $ne: [] }
   });
   
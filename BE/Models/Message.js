@@ -126,6 +126,27 @@ messageSchema.statics.getMatchMessages = async function(matchId, page = 1, limit
   .lean();
 };
 
+// Static method to get the page of getMatchMessages that contains a message, or null if it is not in the match
+messageSchema.statics.getMessagePage = async function(matchId, messageId, limit = 50) {
+  const message = await this.findOne({
+    _id: messageId,
+    match: matchId,
+    isActive: true
+  }).select('createdAt');
+  
+  if (!message) {
+    return null;
+  }
+  
+  const newerCount = await this.countDocuments({
+    match: matchId,
+    isActive: true,
+    createdAt: { $gt: message.createdAt }
+  });
+  
+  return Math.floor(newerCount / limit) + 1;
+};
+
 // Static method to mark messages as read
 messageSchema.statics.markAsRead = async function(matchId, userId) {
   const result = await this.updateMany(
@@ -146,15 +167,33 @@ messageSchema.statics.markAsRead = async function(matchId, userId) {
   return result.modifiedCount;
 };
 
-// Static method to get unread messages count for a user
-messageSchema.statics.getUnreadCount = async function(userId) {
+// Static method to get unread messages count for a user, optionally ignoring some senders
+messageSchema.statics.getUnreadCount = async function(userId, { withoutSenders = [] } = {}) {
   return this.countDocuments({
     recipient: userId,
+    sender: { $nin: withoutSenders },
     isRead: false,
     isActive: true
   });
 };
 
+// Static method to get unread counts per match for a user, as a map of matchId -> count
+messageSchema.statics.getUnreadCountsByMatch = async function(userId, matchIds) {
+  const counts = await this.aggregate([
+    {
+      $match: {
+        match: { $in: matchIds },
+        recipient: userId,
+        isRead: false,
+        isActive: true
+      }
+    },
+    { $group: { _id: '$match', count: { $sum: 1 } } }
+  ]);
+  
+  return new Map(counts.map(({ _id, count }) => [_id.toString(), count]));
+};
+
 // Static method to delete messages (soft delete)
 messageSchema.statics.deleteMessage = async function(messageId, userId) {
   const message = await this.findOne({
@@ -0,0 +1,127 @@
+const mongoose = require('mongoose');
+const { REPORT_REASONS } = require('../Config/reasons');
+
+const MAX_EVIDENCE_MESSAGES = 10;
+
+const reportSchema = new mongoose.Schema({
+  reporter: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  reportedUser: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Set when reported from a conversation, null when reported from a profile in the deck
+  match: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Match',
+    default: null
+  },
+  reason: {
+    type: String,
+    enum: REPORT_REASONS,
+    required: true
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Description cannot be more than 1000 characters'],
+    default: ''
+  },
+  // Messages from the reported user that show the problem
+  evidenceMessages: {
+    type: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Message'
+    }],
+    validate: {
+      validator: messages => messages.length <= MAX_EVIDENCE_MESSAGES,
+      message: `Cannot attach more than ${MAX_EVIDENCE_MESSAGES} messages`
+    }
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'reviewed', 'resolved', 'dismissed'],
+    default: 'pending'
+  },
+  reviewedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// Only one open report per reporter/reported user pair
+reportSchema.index(
+  { reporter: 1, reportedUser: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending' } }
+);
+// Moderation queue, oldest first
+reportSchema.index({ status: 1, createdAt: 1 });
+reportSchema.index({ reportedUser: 1, createdAt: -1 });
+
+// Static method to file a report. Evidence must be messages the reported user sent in the given match.
+reportSchema.statics.createReport = async function({
+  reporterId,
+  reportedUserId,
+  matchId = null,
+  reason,
+  description = '',
+  evidenceMessageIds = []
+}) {
+  if (reporterId.toString() === reportedUserId.toString()) {
+    throw new Error('Cannot report yourself');
+  }
+  
+  if (evidenceMessageIds.length > 0) {
+    if (!matchId) {
+      throw new Error('Evidence messages require a match');
+    }
+    
+    const validCount = await mongoose.model('Message').countDocuments({
+      _id: { $in: evidenceMessageIds },
+      match: matchId,
+      sender: reportedUserId
+    });
+    
+    if (validCount !== evidenceMessageIds.length) {
+      throw new Error('Invalid evidence messages');
+    }
+  }
+  
+  try {
+    return await this.create({
+      reporter: reporterId,
+      reportedUser: reportedUserId,
+      match: matchId,
+      reason,
+      description,
+      evidenceMessages: evidenceMessageIds
+    });
+  } catch (error) {
+    if (error.code === 11000) {
+      throw new Error('You have already reported this user');
+    }
+    throw error;
+  }
+};
+
+// Instance method to format report for response
+reportSchema.methods.toResponse = function() {
+  return {
+    _id: this._id,
+    reportedUser: this.reportedUser,
+    match: this.match,
+    reason: this.reason,
+    description: this.description,
+    evidenceMessages: this.evidenceMessages,
+    status: this.status,
+    createdAt: this.createdAt
+  };
+};
+
+module.exports = mongoose.model('Report', reportSchema);
@@ -0,0 +1,59 @@
+const mongoose = require('mongoose');
+
+const swipeSchema = new mongoose.Schema({
+  swiper: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  target: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  action: {
+    type: String,
+    enum: ['like', 'pass', 'superlike'],
+    required: true
+  },
+  swipedAt: {
+    type: Date,
+    default: Date.now
+  },
+  // The match this swipe completed (the other user had liked first), so a rewind only dissolves a match it created
+  match: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Match',
+    default: null
+  }
+});
+
+// A user can only have one swipe on another user
+swipeSchema.index({ swiper: 1, target: 1 }, { unique: true });
+// Own swipes, most recent first (history, rewind, daily super like quota)
+swipeSchema.index({ swiper: 1, swipedAt: -1 });
+// Swipes received (match detection, likes received, boost report)
+swipeSchema.index({ target: 1, action: 1, swipedAt: -1 });
+
+// Static method to get swipe statistics
+swipeSchema.statics.getSwipeStats = async function(userId) {
+  const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+
+  const [stats] = await this.aggregate([
+    { $match: { swiper: userId } },
+    {
+      $group: {
+        _id: null,
+        total: { $sum: 1 },
+        likes: { $sum: { $cond: [{ $eq: ['$action', 'like'] }, 1, 0] } },
+        superLikes: { $sum: { $cond: [{ $eq: ['$action', 'superlike'] }, 1, 0] } },
+        passes: { $sum: { $cond: [{ $eq: ['$action', 'pass'] }, 1, 0] } },
+        recentWeek: { $sum: { $cond: [{ $gt: ['$swipedAt', weekAgo] }, 1, 0] } }
+      }
+    }
+  ]);
+
+  return stats || { total: 0, likes: 0, superLikes: 0, passes: 0, recentWeek: 0 };
+};
+
+module.exports = mongoose.model('Swipe', swipeSchema);
@@ -1,5 +1,47 @@
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
+const { INTERESTS, MAX_INTERESTS } = require('../Config/interests');
+const { CITIES, CITY_KEYS } = require('../Config/cities');
+const {
+  SCORE_WEIGHTS,
+  CANDIDATE_POOL_SIZE,
+  RECENCY_HALF_LIFE_HOURS,
+  DISTANCE_EXPANSION_FACTORS,
+  AGE_EXPANSION_YEARS
+} = require('../Config/discovery');
+const Swipe = require('./Swipe');
+
+// Rewind limits: only recent swipes can be undone, and only a few in a row
+const REWIND_WINDOW_MINUTES = parseInt(process.env.REWIND_WINDOW_MINUTES) || 10;
+const MAX_CONSECUTIVE_REWINDS = parseInt(process.env.MAX_CONSECUTIVE_REWINDS) || 3;
+
+// How long a pass keeps a profile out of the deck before it can show up again
+const PASS_COOLDOWN_DAYS = parseInt(process.env.PASS_COOLDOWN_DAYS) || 30;
+
+// Number of super likes each user can send per day
+const SUPER_LIKES_PER_DAY = parseInt(process.env.SUPER_LIKES_PER_DAY) || 3;
+
+// How long a profile boost lasts
+const BOOST_DURATION_MINUTES = parseInt(process.env.BOOST_DURATION_MINUTES) || 30;
+
+// Public profile fields returned in lists of other users (never the exact coordinates)
+const PUBLIC_PROFILE_FIELDS = '_id name age gender bio interests photos location.city location.country passport isOnline lastActive';
+
+// Users who never shared a location keep the default [0, 0] coordinates
+const hasLocation = user => user.location.coordinates[0] !== 0 || user.location.coordinates[1] !== 0;
+
+const hasPassport = user => !!(user.passport && user.passport.city);
+
+// Where the user browses from: the Passport city while it is on, otherwise their real location (if any)
+const getSearchCoordinates = user => {
+  if (hasPassport(user)) {
+    return CITIES[user.passport.city];
+  }
+  return hasLocation(user) ? user.location.coordinates : null;
+};
+
+// Distances are only ever exposed in whole kilometers (and never below 1 km) so exact positions can't be triangulated
+const toPublicDistance = meters => Math.max(Math.round(meters / 1000), 1);
 
 const userSchema = new mongoose.Schema({
   name: {
@@ -47,6 +89,17 @@ const userSchema = new mongoose.Schema({
     maxlength: [500, 'Bio cannot be more than 500 characters'],
     default: ''
   },
+  interests: {
+    type: [{
+      type: String,
+      enum: INTERESTS
+    }],
+    default: [],
+    validate: {
+      validator: interests => interests.length <= MAX_INTERESTS,
+      message: `You can pick at most ${MAX_INTERESTS} interests`
+    }
+  },
   location: {
     type: {
       type: String,
@@ -80,6 +133,31 @@ const userSchema = new mongoose.Schema({
       default: Date.now
     }
   }],
+  // Where other users find this user in discovery: the Passport city while Passport is on, otherwise the
+  // real location. Kept in step with both and never sent to other users.
+  discoveryLocation: {
+    type: {
+      type: String,
+      enum: ['Point'],
+      default: 'Point'
+    },
+    coordinates: {
+      type: [Number],
+      default: [0, 0]
+    }
+  },
+  passport: {
+    // Key from Config/cities.js, null when Passport is off
+    city: {
+      type: String,
+      enum: [...CITY_KEYS, null],
+      default: null
+    },
+    startedAt: {
+      type: Date,
+      default: null
+    }
+  },
   preferences: {
     ageRange: {
       min: {
@@ -100,25 +178,53 @@ const userSchema = new mongoose.Schema({
       max: 500
     }
   },
-  swipedUsers: [{
-    userId: {
-      type: mongoose.Schema.Types.ObjectId,
-      ref: 'User'
+  matches: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Match'
+  }],
+  consecutiveRewinds: {
+    type: Number,
+    default: 0
+  },
+  // Super likes used on a given day; rewinding a super like doesn't give it back
+  superLikes: {
+    day: {
+      type: Date,
+      default: null
     },
-    action: {
-      type: String,
-      enum: ['like', 'pass'],
-      required: true
+    count: {
+      type: Number,
+      default: 0
+    }
+  },
+  boost: {
+    startedAt: {
+      type: Date,
+      default: null
     },
-    swipedAt: {
+    endsAt: {
       type: Date,
-      default: Date.now
+      default: null
+    },
+    views: {
+      type: Number,
+      default: 0
     }
-  }],
-  matches: [{
+  },
+  isPremium: {
+    type: Boolean,
+    default: false
+  },
+  // People this user never wants to see or hear from again, whether or not they matched
+  blockedUsers: [{
     type: mongoose.Schema.Types.ObjectId,
-    ref: 'Match'
+    ref: 'User'
   }],
+  // Incognito: only shown to people this user has liked
+  isIncognito: {
+    type: Boolean,
+    default: false
+  },
   isActive: {
     type: Boolean,
     default: true
@@ -142,9 +248,11 @@ const userSchema = new mongoose.Schema({
 });
 
 // Create geospatial index for location-based queries
-userSchema.index({ location: '2dsphere' });
+userSchema.index({ discoveryLocation: '2dsphere' });
 userSchema.index({ isActive: 1 });
 userSchema.index({ lastActive: -1 });
+userSchema.index({ 'boost.endsAt': -1 });
+userSchema.index({ blockedUsers: 1 });
 
 // Virtual for main photo
 userSchema.virtual('mainPhoto').get(function() {
@@ -165,6 +273,29 @@ userSchema.pre('save', async function(next) {
   }
 });
 
+// Keep the discovery location in step with the real location and Passport
+userSchema.pre('save', function(next) {
+  if (this.isNew || this.isModified('location') || this.isModified('passport')) {
+    this.discoveryLocation = {
+      type: 'Point',
+      coordinates: hasPassport(this) ? CITIES[this.passport.city] : this.location.coordinates
+    };
+  }
+  next();
+});
+
+// Profile updates set the location with findOneAndUpdate, which skips the save hook above
+userSchema.pre('findOneAndUpdate', async function() {
+  const update = this.getUpdate();
+  const location = update && (update.location || (update.$set && update.$set.location));
+  if (!location) return;
+  
+  const user = await this.model.findOne(this.getQuery()).select('passport');
+  if (user && !hasPassport(user)) {
+    this.set('discoveryLocation', { type: 'Point', coordinates: location.coordinates || [0, 0] });
+  }
+});
+
 // Update lastActive on save
 userSchema.pre('save', function(next) {
   if (this.isModified('isOnline') && this.isOnline) {
@@ -173,106 +304,739 @@ userSchema.pre('save', function(next) {
   next();
 });
 
+// Calculate how complete a profile is, from 0 to 100
+userSchema.statics.calculateProfileCompleteness = function(user) {
+  let completeness = 0;
+  const fields = ['name', 'age', 'bio', 'gender', 'interestedIn'];
+  
+  fields.forEach(field => {
+    if (user[field] && user[field].toString().trim() !== '') {
+      completeness += 20;
+    }
+  });
+  
+  // Photos bonus
+  if (user.photos.length > 0) {
+    completeness += Math.min(user.photos.length * 10, 30);
+  }
+  
+  return Math.min(completeness, 100);
+};
+
 // Compare password method
 userSchema.methods.comparePassword = async function(candidatePassword) {
   return bcrypt.compare(candidatePassword, this.password);
 };
 
-// Get users for swiping
-userSchema.methods.getPotentialMatches = async function(limit = 10) {
-  const swipedUserIds = this.swipedUsers.map(swipe => swipe.userId);
-  swipedUserIds.push(this._id); // Exclude self
+// IDs discovery needs to filter on, read once per request from indexed queries so the candidate query can
+// filter on them directly instead of looking them up for every profile in range
+const getDiscoveryFilters = async user => {
+  const [swipedIds, unmatchedIds, likerIds] = await Promise.all([
+    // Everyone this user already swiped on
+    Swipe.distinct('target', { swiper: user._id }),
+    // Everyone either side has unmatched (this includes the user, who is excluded anyway)
+    mongoose.model('Match').distinct('users', { users: user._id, isActive: false, unmatchedAt: { $ne: null } }),
+    // Everyone who liked this user: the only incognito users it may see
+    Swipe.distinct('swiper', { target: user._id, action: { $in: ['like', 'superlike'] } })
+  ]);
+  
+  return { swipedIds, unmatchedIds, likerIds };
+};
+
+// Pipeline stages selecting the profiles a user can be shown with the given preferences: in range, in the age
+// range and of the preferred gender, not hidden by incognito and not swiped on yet (or only swiped ones with onlySwiped)
+const candidateStages = (user, { maxDistance, ageRange, interestedIn }, filters, { excludeIds = [], onlySwiped = false } = {}) => {
+  // Exclude self. Aggregations don't cast, so IDs coming from the client must be ObjectIds
+  const excludedIds = [user._id, ...excludeIds.map(id => new mongoose.Types.ObjectId(id))];
   
   const query = {
-    _id: { $nin: swipedUserIds },
+    // Blocking hides both people from each other, whoever blocked whom, and unmatched people never come back
+    _id: { $nin: [...excludedIds, ...user.blockedUsers, ...filters.unmatchedIds] },
+    blockedUsers: { $ne: user._id },
     isActive: true,
     age: {
-      $gte: this.preferences.ageRange.min,
-      $lte: this.preferences.ageRange.max
-    }
+      $gte: ageRange.min,
+      $lte: ageRange.max
+    },
+    // Incognito users only show up for people they have liked
+    $or: [{ isIncognito: { $ne: true } }, { _id: { $in: filters.likerIds } }]
   };
   
+  // Drop anyone this user already swiped on
+  if (onlySwiped) {
+    query._id.$in = filters.swipedIds;
+  } else {
+    query._id.$nin.push(...filters.swipedIds);
+  }
+  
   // Filter by gender preference
-  if (this.interestedIn !== 'both') {
-    query.gender = this.interestedIn;
+  if (interestedIn !== 'both') {
+    query.gender = interestedIn;
   }
   
-  // Add location filter if user has location
-  if (this.location.coordinates[0] !== 0 || this.location.coordinates[1] !== 0) {
-    query.location = {
-      $near: {
-        $geometry: {
-          type: 'Point',
-          coordinates: this.location.coordinates
-        },
-        $maxDistance: this.preferences.maxDistance * 1000 // Convert km to meters
+  const searchCoordinates = getSearchCoordinates(user);
+  
+  return [
+    searchCoordinates
+      ? {
+        $geoNear: {
+          near: { type: 'Point', coordinates: searchCoordinates },
+          key: 'discoveryLocation',
+          distanceField: 'distance',
+          maxDistance: maxDistance * 1000, // Convert km to meters
+          query,
+          spherical: true
+        }
+      }
+      : { $match: query }
+  ];
+};
+
+// Get users for swiping, ranked by compatibility with this user
+userSchema.methods.getPotentialMatches = async function(limit = 10, excludeIds = [], { debug = false } = {}) {
+  const canUseLocation = !!getSearchCoordinates(this);
+  const now = new Date();
+  
+  // Collect a pool of candidates (nearest first when the user has a location) that gets scored below.
+  // Boosted profiles are always pulled into the pool first.
+  const pipeline = [
+    ...candidateStages(this, {
+      maxDistance: this.preferences.maxDistance,
+      ageRange: this.preferences.ageRange,
+      interestedIn: this.interestedIn
+    }, await getDiscoveryFilters(this), { excludeIds }),
+    { $addFields: { isBoosted: { $gt: ['$boost.endsAt', now] } } },
+    { $sort: canUseLocation ? { isBoosted: -1, distance: 1 } : { isBoosted: -1, lastActive: -1 } },
+    { $limit: CANDIDATE_POOL_SIZE },
+    {
+      $project: {
+        password: 0, boost: 0, isIncognito: 0, blockedUsers: 0, superLikes: 0, discoveryLocation: 0, 'location.coordinates': 0
+      }
+    }
+  ];
+  
+  const User = mongoose.model('User');
+  const pool = await User.aggregate(pipeline);
+  
+  const ranked = pool
+    .map(({ distance, isBoosted, ...candidate }) => {
+      const components = this.scoreCandidate(candidate, distance);
+      const total = Object.keys(SCORE_WEIGHTS).reduce(
+        (sum, component) => sum + SCORE_WEIGHTS[component] * components[component],
+        0
+      );
+      return { candidate, distance, isBoosted, score: { total, ...components } };
+    })
+    .sort((a, b) => (b.isBoosted - a.isBoosted) || (b.score.total - a.score.total))
+    .slice(0, limit);
+  
+  // Count how often boosted profiles get shown for their boost report
+  const boostedIds = ranked.filter(entry => entry.isBoosted).map(entry => entry.candidate._id);
+  if (boostedIds.length > 0) {
+    await User.updateMany({ _id: { $in: boostedIds } }, { $inc: { 'boost.views': 1 } });
+  }
+  
+  // Flag candidates who already super liked this user so the card can show it
+  const superLikerIds = await Swipe.distinct('swiper', {
+    swiper: { $in: ranked.map(entry => entry.candidate._id) },
+    target: this._id,
+    action: 'superlike'
+  });
+  const superLikers = new Set(superLikerIds.map(id => id.toString()));
+  
+  return ranked.map(({ candidate, distance, score }) => ({
+    // Hydrate so the response has the same shape (virtuals included) as a regular find
+    ...User.hydrate(candidate, {
+      password: 0, boost: 0, isIncognito: 0, blockedUsers: 0, superLikes: 0, discoveryLocation: 0, 'location.coordinates': 0
+    }).toPublicJSON(),
+    // Users browsing via Passport only show the city they picked, not how far away they really are
+    distance: distance === undefined || hasPassport(candidate) ? null : toPublicDistance(distance),
+    superLikedMe: superLikers.has(candidate._id.toString()),
+    ...(debug && { score })
+  }));
+};
+
+// Explain why discovery is running out of profiles and how many more each relaxed preference would bring in.
+// Profiles in excludeIds (already in the deck) are not counted.
+userSchema.methods.getDeckExhaustion = async function(excludeIds = []) {
+  const User = mongoose.model('User');
+  const current = {
+    maxDistance: this.preferences.maxDistance,
+    ageRange: { min: this.preferences.ageRange.min, max: this.preferences.ageRange.max },
+    interestedIn: this.interestedIn
+  };
+  
+  const filters = await getDiscoveryFilters(this);
+  
+  const countCandidates = async (preferences, options = {}) => {
+    const [result] = await User.aggregate([
+      ...candidateStages(this, preferences, filters, { excludeIds, ...options }),
+      { $count: 'count' }
+    ]);
+    return result ? result.count : 0;
+  };
+  
+  const suggestions = [];
+  
+  // Suggest the smallest bigger distance that finds someone (only meaningful with a location)
+  if (getSearchCoordinates(this)) {
+    const distances = DISTANCE_EXPANSION_FACTORS
+      .map(factor => Math.min(Math.ceil(current.maxDistance * factor / 5) * 5, 500))
+      .filter((distance, index, all) => distance > current.maxDistance && all.indexOf(distance) === index);
+    
+    for (const maxDistance of distances) {
+      const count = await countCandidates({ ...current, maxDistance });
+      if (count > 0) {
+        suggestions.push({ preference: 'maxDistance', value: maxDistance, count });
+        break;
       }
+    }
+  }
+  
+  // Same for a wider age range
+  for (const years of AGE_EXPANSION_YEARS) {
+    const ageRange = {
+      min: Math.max(current.ageRange.min - years, 18),
+      max: Math.min(current.ageRange.max + years, 100)
     };
+    if (ageRange.min === current.ageRange.min && ageRange.max === current.ageRange.max) {
+      break;
+    }
+    
+    const count = await countCandidates({ ...current, ageRange });
+    if (count > 0) {
+      suggestions.push({ preference: 'ageRange', value: ageRange, count });
+      break;
+    }
   }
   
-  return mongoose.model('User').find(query)
-    .select('-password -swipedUsers')
-    .limit(limit)
-    .sort({ lastActive: -1 });
+  // People matching the current preferences that were all swiped on already
+  const swipedCount = await countCandidates(current, { onlySwiped: true });
+  
+  const reasons = [];
+  if (swipedCount > 0) reasons.push('everyoneSwiped');
+  if (suggestions.some(suggestion => suggestion.preference === 'maxDistance')) reasons.push('distance');
+  if (suggestions.some(suggestion => suggestion.preference === 'ageRange')) reasons.push('ageRange');
+  
+  return { reasons, swipedCount, suggestions };
 };
 
-// Add swipe action
-userSchema.methods.addSwipe = async function(targetUserId, action) {
-  // Check if already swiped
-  const existingSwipe = this.swipedUsers.find(
-    swipe => swipe.userId.toString() === targetUserId.toString()
+// Score how well a candidate fits this user. Every component is between 0 and 1.
+userSchema.methods.scoreCandidate = function(candidate, distanceMeters) {
+  // Closer is better; without a location every candidate scores the same
+  const distance = distanceMeters === undefined
+    ? 0
+    : Math.max(1 - distanceMeters / (this.preferences.maxDistance * 1000), 0);
+  
+  // Halves every RECENCY_HALF_LIFE_HOURS since the candidate was last active
+  const hoursInactive = Math.max(Date.now() - new Date(candidate.lastActive).getTime(), 0) / (60 * 60 * 1000);
+  const recency = Math.pow(0.5, hoursInactive / RECENCY_HALF_LIFE_HOURS);
+  
+  // Share of the smaller interest list that both users picked
+  const candidateInterests = candidate.interests || [];
+  const sharedCount = candidateInterests.filter(interest => this.interests.includes(interest)).length;
+  const sharedInterests = sharedCount / Math.max(Math.min(candidateInterests.length, this.interests.length), 1);
+  
+  // Whether the candidate would see this user in their own deck
+  const candidateAgeRange = candidate.preferences && candidate.preferences.ageRange;
+  const fitsAgeRange = !candidateAgeRange ||
+    (this.age >= candidateAgeRange.min && this.age <= candidateAgeRange.max);
+  const fitsGender = candidate.interestedIn === 'both' || candidate.interestedIn === this.gender;
+  const mutualFit = (fitsAgeRange ? 0.5 : 0) + (fitsGender ? 0.5 : 0);
+  
+  const completeness = mongoose.model('User').calculateProfileCompleteness(candidate) / 100;
+  
+  return { distance, recency, sharedInterests, mutualFit, completeness };
+};
+
+// Check whether a viewer may see this profile. Incognito users are only visible to people they liked
+// (and their matches, which always started with a like). Once either side unmatches, neither sees the other.
+userSchema.methods.isVisibleTo = async function(viewer) {
+  if (this._id.equals(viewer._id)) {
+    return true;
+  }
+  
+  if (await mongoose.model('User').isBlockedBetween(this._id, viewer._id)) {
+    return false;
+  }
+  
+  if (await mongoose.model('Match').wereUnmatched(this._id, viewer._id)) {
+    return false;
+  }
+  
+  if (!this.isIncognito) {
+    return true;
+  }
+  
+  const likedViewer = await Swipe.exists({
+    swiper: this._id,
+    target: viewer._id,
+    action: { $in: ['like', 'superlike'] }
+  });
+  if (likedViewer) {
+    return true;
+  }
+  
+  return !!(await mongoose.model('Match').areUsersMatched(this._id, viewer._id));
+};
+
+// JSON of this user as other users see it: while browsing via Passport only the Passport city shows,
+// not the city they are really in
+userSchema.methods.toPublicJSON = function() {
+  const json = this.toJSON();
+  if (hasPassport(this) && json.location) {
+    json.location = { city: '', country: '' };
+  }
+  return json;
+};
+
+// Check whether this user has blocked another user
+userSchema.methods.hasBlocked = function(user) {
+  return this.blockedUsers.some(id => id.equals(user._id));
+};
+
+// IDs of everyone hidden from this user by a block, in either direction
+userSchema.methods.getBlockedUserIds = async function() {
+  const blockedBy = await mongoose.model('User').find({ blockedUsers: this._id }).distinct('_id');
+  return [...this.blockedUsers, ...blockedBy];
+};
+
+// Block a user. Any match stays in place but is hidden from both sides until unblocked.
+userSchema.methods.blockUser = async function(userId) {
+  if (this._id.equals(userId)) {
+    throw new Error('Cannot block yourself');
+  }
+  
+  if (this.hasBlocked({ _id: userId })) {
+    throw new Error('User is already blocked');
+  }
+  
+  this.blockedUsers.push(userId);
+  await this.save();
+};
+
+// Unblock a user
+userSchema.methods.unblockUser = async function(userId) {
+  if (!this.hasBlocked({ _id: userId })) {
+    throw new Error('User is not blocked');
+  }
+  
+  this.blockedUsers.pull(userId);
+  await this.save();
+};
+
+// Get the people this user has blocked, most recently blocked first
+userSchema.methods.getBlockedUsers = async function() {
+  const users = await mongoose.model('User').find({ _id: { $in: this.blockedUsers } })
+    .select('_id name photos');
+  const byId = new Map(users.map(user => [user._id.toString(), user]));
+  
+  return [...this.blockedUsers]
+    .reverse()
+    .map(id => byId.get(id.toString()))
+    .filter(Boolean);
+};
+
+// Check whether either of two users has blocked the other
+userSchema.statics.isBlockedBetween = async function(userId1, userId2) {
+  return !!(await this.exists({
+    $or: [
+      { _id: userId1, blockedUsers: userId2 },
+      { _id: userId2, blockedUsers: userId1 }
+    ]
+  }));
+};
+
+// Get the rounded distance in km to another user, or null if either location is unknown
+// (or the other user is browsing via Passport). Only the other user's id is read, so it also works
+// on profiles loaded without their coordinates.
+userSchema.methods.getDistanceTo = async function(user) {
+  const searchCoordinates = getSearchCoordinates(this);
+  if (!searchCoordinates) {
+    return null;
+  }
+  
+  // Users without a location, or browsing via Passport, have no distance
+  const [result] = await mongoose.model('User').aggregate([
+    {
+      $geoNear: {
+        near: { type: 'Point', coordinates: searchCoordinates },
+        key: 'discoveryLocation',
+        distanceField: 'distance',
+        query: {
+          _id: user._id,
+          'location.coordinates': { $ne: [0, 0] },
+          'passport.city': { $in: [null, ''] }
+        },
+        spherical: true
+      }
+    },
+    { $project: { distance: 1 } }
+  ]);
+  
+  return result ? toPublicDistance(result.distance) : null;
+};
+
+// Get how many super likes the user can still send today
+userSchema.methods.getSuperLikesRemaining = async function() {
+  const startOfDay = new Date(new Date().setHours(0, 0, 0, 0));
+  const sentToday = this.superLikes?.day?.getTime() === startOfDay.getTime() ? this.superLikes.count : 0;
+  
+  return Math.max(SUPER_LIKES_PER_DAY - sentToday, 0);
+};
+
+// Use one of today's super likes in a single atomic update, so parallel requests can't overspend the quota.
+// Returns false once the quota is spent.
+userSchema.methods.useSuperLike = async function() {
+  const startOfDay = new Date(new Date().setHours(0, 0, 0, 0));
+  
+  const updated = await mongoose.model('User').findOneAndUpdate(
+    {
+      _id: this._id,
+      $or: [
+        { 'superLikes.day': { $ne: startOfDay } },
+        { 'superLikes.count': { $lt: SUPER_LIKES_PER_DAY } }
+      ]
+    },
+    [{
+      $set: {
+        superLikes: {
+          day: startOfDay,
+          count: {
+            $cond: [{ $eq: ['$superLikes.day', startOfDay] }, { $add: ['$superLikes.count', 1] }, 1]
+          }
+        }
+      }
+    }],
+    { new: true, projection: { superLikes: 1 } }
   );
   
-  if (existingSwipe) {
-    throw new Error('Already swiped on this user');
+  if (!updated) {
+    return false;
+  }
+  
+  // Already stored, so a later save() must not write it again
+  this.set('superLikes', updated.superLikes);
+  this.unmarkModified('superLikes');
+  return true;
+};
+
+// Give back a super like that was used for a swipe that didn't go through
+userSchema.methods.releaseSuperLike = async function() {
+  await mongoose.model('User').updateOne(
+    { _id: this._id, 'superLikes.day': this.superLikes.day, 'superLikes.count': { $gt: 0 } },
+    { $inc: { 'superLikes.count': -1 } }
+  );
+  this.superLikes.count = Math.max(this.superLikes.count - 1, 0);
+  this.unmarkModified('superLikes.count');
+};
+
+// Check whether the profile boost is currently running
+userSchema.methods.isBoosted = function() {
+  return !!this.boost.endsAt && this.boost.endsAt > new Date();
+};
+
+// Start a profile boost
+userSchema.methods.startBoost = async function() {
+  if (this.isBoosted()) {
+    throw new Error('Boost is already active');
+  }
+  
+  const now = new Date();
+  this.boost = {
+    startedAt: now,
+    endsAt: new Date(now.getTime() + BOOST_DURATION_MINUTES * 60 * 1000),
+    views: 0
+  };
+  
+  await this.save();
+};
+
+// Browse and swipe from another city without changing the real location
+userSchema.methods.setPassport = async function(city) {
+  this.passport = {
+    city,
+    startedAt: new Date()
+  };
+  await this.save();
+};
+
+// Go back to browsing from the real location
+userSchema.methods.clearPassport = async function() {
+  this.passport = {
+    city: null,
+    startedAt: null
+  };
+  await this.save();
+};
+
+// Report how the latest boost performed compared to a window of the same length just before it
+userSchema.methods.getBoostReport = async function() {
+  if (!this.boost.startedAt) {
+    return null;
   }
   
-  this.swipedUsers.push({
-    userId: targetUserId,
-    action: action
+  const { startedAt, endsAt, views } = this.boost;
+  const windowEnd = new Date(Math.min(endsAt.getTime(), Date.now()));
+  const windowLength = windowEnd.getTime() - startedAt.getTime();
+  
+  const countLikesBetween = (from, to) => Swipe.countDocuments({
+    target: this._id,
+    action: { $in: ['like', 'superlike'] },
+    swipedAt: { $gte: from, $lt: to }
+  });
+  
+  const likes = await countLikesBetween(startedAt, windowEnd);
+  const baselineLikes = await countLikesBetween(new Date(startedAt.getTime() - windowLength), startedAt);
+  
+  return {
+    startedAt,
+    endsAt,
+    views,
+    likes,
+    baselineLikes,
+    extraLikes: Math.max(likes - baselineLikes, 0)
+  };
+};
+
+// Get users who liked this user and haven't been swiped on yet, most recent like first
+userSchema.methods.getLikesReceived = async function({ skip = 0, limit = 20 } = {}) {
+  const User = mongoose.model('User');
+  
+  const projection = PUBLIC_PROFILE_FIELDS.split(' ').reduce(
+    (fields, field) => ({ ...fields, [field]: 1 }),
+    {}
+  );
+  
+  const [result] = await Swipe.aggregate([
+    { $match: { target: this._id, action: { $in: ['like', 'superlike'] } } },
+    // Skip likers this user already swiped on
+    {
+      $lookup: {
+        from: Swipe.collection.name,
+        let: { likerId: '$swiper' },
+        pipeline: [
+          { $match: { $expr: { $and: [{ $eq: ['$swiper', this._id] }, { $eq: ['$target', '$$likerId'] }] } } },
+          { $limit: 1 },
+          { $project: { _id: 1 } }
+        ],
+        as: 'response'
+      }
+    },
+    { $match: { response: { $size: 0 } } },
+    {
+      $lookup: {
+        from: User.collection.name,
+        localField: 'swiper',
+        foreignField: '_id',
+        pipeline: [
+          { $match: { isActive: true, _id: { $nin: this.blockedUsers }, blockedUsers: { $ne: this._id } } },
+          { $project: projection }
+        ],
+        as: 'liker'
+      }
+    },
+    { $unwind: '$liker' },
+    { $sort: { swipedAt: -1 } },
+    {
+      $facet: {
+        total: [{ $count: 'count' }],
+        likes: [{ $skip: skip }, { $limit: limit }]
+      }
+    }
+  ]);
+  
+  const users = result.likes.map(like => ({
+    ...User.hydrate(like.liker, projection).toPublicJSON(),
+    likedAt: like.swipedAt,
+    superLike: like.action === 'superlike'
+  }));
+  
+  return { total: result.total.length > 0 ? result.total[0].count : 0, users };
+};
+
+// Create the match when the target of a like already liked the user back, and remember it on the swipe.
+// The swipe is already stored, so when both users like each other at the same moment at least one of the
+// two requests sees the other like.
+const matchIfLikedBack = async (user, swipe) => {
+  const targetUserLikedBack = await Swipe.exists({
+    swiper: swipe.target,
+    target: user._id,
+    action: { $in: ['like', 'superlike'] }
   });
   
+  if (!targetUserLikedBack) {
+    return { match: false };
+  }
+  
+  // Creates the match and adds it to both users, or returns the match the other request just created
+  const match = await mongoose.model('Match').createForPair(user._id, swipe.target);
+  
+  swipe.match = match._id;
+  await swipe.save();
+  
+  return { match: true, matchId: match._id };
+};
+
+// Add swipe action
+userSchema.methods.addSwipe = async function(targetUserId, action) {
+  if (action === 'superlike' && !(await this.useSuperLike())) {
+    throw new Error('Daily super like limit reached');
+  }
+  
+  // The unique swiper/target index rejects a second swipe on the same user
+  let swipe;
+  try {
+    swipe = await Swipe.create({
+      swiper: this._id,
+      target: targetUserId,
+      action: action
+    });
+  } catch (error) {
+    if (action === 'superlike') {
+      await this.releaseSuperLike();
+    }
+    if (error.code === 11000) {
+      throw new Error('Already swiped on this user');
+    }
+    throw error;
+  }
+  
+  this.consecutiveRewinds = 0;
+  await this.save();
+  
+  // Check for match if it's a like (a super like is a like too)
+  if (action === 'like' || action === 'superlike') {
+    return matchIfLikedBack(this, swipe);
+  }
+  
+  return { match: false };
+};
+
+// Turn an earlier pass into a like, which creates a match if they already liked this user.
+// Only passes can change: a like stays a like. Passes older than the cool-down are already forgotten
+// (their profiles come back in the deck instead), and liking from history is free like any other like.
+userSchema.methods.likeAfterPass = async function(targetUserId) {
+  // Changed in place, so the pass is never lost when creating the match fails
+  const swipe = await Swipe.findOneAndUpdate(
+    { swiper: this._id, target: targetUserId, action: 'pass' },
+    { $set: { action: 'like', swipedAt: new Date() } },
+    { new: true }
+  );
+  
+  if (!swipe) {
+    const existingSwipe = await Swipe.exists({ swiper: this._id, target: targetUserId });
+    throw new Error(existingSwipe ? 'Only passed profiles can be liked from history' : 'No swipe on this user');
+  }
+  
+  this.consecutiveRewinds = 0;
   await this.save();
   
-  // Check for match if it's a like
-  if (action === 'like') {
-    const targetUser = await mongoose.model('User').findById(targetUserId);
-    const targetUserLikedBack = targetUser.swipedUsers.find(
-      swipe => swipe.userId.toString() === this._id.toString() && swipe.action === 'like'
-    );
+  return matchIfLikedBack(this, swipe);
+};
+
+// Get a page of swipe history, most recent first. Likes include super likes.
+userSchema.methods.getSwipeHistory = async function({ type = 'like', skip = 0, limit = 20 } = {}) {
+  const query = {
+    swiper: this._id,
+    action: type === 'pass' ? 'pass' : { $in: ['like', 'superlike'] }
+  };
+  
+  const [total, pageSwipes] = await Promise.all([
+    Swipe.countDocuments(query),
+    Swipe.find(query).sort({ swipedAt: -1 }).skip(skip).limit(limit)
+  ]);
+  
+  const users = await mongoose.model('User')
+    .find({ _id: { $in: pageSwipes.map(swipe => swipe.target) }, isActive: true })
+    .select(PUBLIC_PROFILE_FIELDS);
+  const usersById = new Map(users.map(user => [user._id.toString(), user]));
+  
+  const entries = pageSwipes
+    .filter(swipe => usersById.has(swipe.target.toString()))
+    .map(swipe => ({
+      user: usersById.get(swipe.target.toString()).toPublicJSON(),
+      action: swipe.action,
+      swipedAt: swipe.swipedAt,
+      // Passed profiles come back into the deck once the cool-down is over
+      ...(swipe.action === 'pass' && {
+        returnsAt: new Date(swipe.swipedAt.getTime() + PASS_COOLDOWN_DAYS * 24 * 60 * 60 * 1000)
+      })
+    }));
+  
+  return { total, entries };
+};
+
+// Undo the most recent swipe, dissolving the match it created if the other user hasn't messaged yet
+userSchema.methods.rewindLastSwipe = async function() {
+  const lastSwipe = await Swipe.findOne({ swiper: this._id }).sort({ swipedAt: -1 });
+  
+  if (!lastSwipe) {
+    throw new Error('No swipe to rewind');
+  }
+  
+  if (this.consecutiveRewinds >= MAX_CONSECUTIVE_REWINDS) {
+    throw new Error(`You can only rewind ${MAX_CONSECUTIVE_REWINDS} swipes in a row`);
+  }
+  
+  const windowStart = new Date(Date.now() - REWIND_WINDOW_MINUTES * 60 * 1000);
+  if (lastSwipe.swipedAt < windowStart) {
+    throw new Error(`Only swipes from the last ${REWIND_WINDOW_MINUTES} minutes can be rewound`);
+  }
+  
+  let dissolvedMatch = null;
+  
+  if (lastSwipe.action === 'like' || lastSwipe.action === 'superlike') {
+    const Match = mongoose.model('Match');
+    const Message = mongoose.model('Message');
+    
+    // Only the match this swipe completed: a match the other user created later by liking back stays
+    const match = lastSwipe.match && await Match.findOne({ _id: lastSwipe.match, isActive: true });
     
-    if (targetUserLikedBack) {
-      // Create a match
-      const Match = mongoose.model('Match');
-      const match = new Match({
-        users: [this._id, targetUserId]
+    if (match) {
+      const otherUserMessaged = await Message.exists({
+        match: match._id,
+        sender: lastSwipe.target
       });
-      await match.save();
       
-      // Add match to both users
-      this.matches.push(match._id);
-      targetUser.matches.push(match._id);
-      
-      await this.save();
-      await targetUser.save();
+      if (otherUserMessaged) {
+        throw new Error('Cannot rewind a match that already has a conversation');
+      }
       
-      return { match: true, matchId: match._id };
+      await Message.deleteMany({ match: match._id });
+      await match.deleteOne();
+      await mongoose.model('User').updateOne(
+        { _id: lastSwipe.target },
+        { $pull: { matches: match._id } }
+      );
+      this.matches.pull(match._id);
+      dissolvedMatch = match;
     }
   }
   
-  return { match: false };
+  await lastSwipe.deleteOne();
+  this.consecutiveRewinds += 1;
+  await this.save();
+  
+  return {
+    userId: lastSwipe.target,
+    action: lastSwipe.action,
+    dissolvedMatchId: dissolvedMatch ? dissolvedMatch._id : null,
+    rewindsRemaining: MAX_CONSECUTIVE_REWINDS - this.consecutiveRewinds
+  };
 };
 
-// Clean up old swipes (optional, for performance)
-userSchema.methods.cleanOldSwipes = async function(daysOld = 30) {
+// Forget passes older than the cool-down so those profiles can show up in the deck again.
+// Likes are kept since they are needed to detect matches.
+userSchema.methods.cleanOldSwipes = async function(daysOld = PASS_COOLDOWN_DAYS) {
   const cutoffDate = new Date();
   cutoffDate.setDate(cutoffDate.getDate() - daysOld);
   
-  this.swipedUsers = this.swipedUsers.filter(
-    swipe => swipe.swipedAt > cutoffDate
-  );
-  
-  await this.save();
+  await Swipe.deleteMany({
+    swiper: this._id,
+    action: 'pass',
+    swipedAt: { $lte: cutoffDate }
+  });
 };
 
 module.exports = mongoose.model('User', userSchema);
\ No newline at end of file
@@ -1,6 +1,7 @@
 const express = require('express');
 const { body } = require('express-validator');
 const auth = require('../Middlewares/auth');
+const { INTERESTS, MAX_INTERESTS } = require('../Config/interests');
 const {
   register,
   login,
@@ -37,7 +38,14 @@ router.post('/register', [
     .withMessage('Gender must be male, female, or other'),
   body('interestedIn')
     .isIn(['male', 'female', 'both'])
-    .withMessage('Interested in must be male, female, or both')
+    .withMessage('Interested in must be male, female, or both'),
+  body('interests')
+    .optional()
+    .isArray({ max: MAX_INTERESTS })
+    .withMessage(`Interests must be a list of at most ${MAX_INTERESTS} items`),
+  body('interests.*')
+    .isIn(INTERESTS)
+    .withMessage('Invalid interest')
 ], register);
 
 // @route   POST /api/auth/login
@@ -84,7 +92,38 @@ router.put('/update-profile', auth, [
   body('bio')
     .optional()
     .isLength({ max: 500 })
-    .withMessage('Bio cannot be more than 500 characters')
+    .withMessage('Bio cannot be more than 500 characters'),
+  body('interestedIn')
+    .optional()
+    .isIn(['male', 'female', 'both'])
+    .withMessage('Interested in must be male, female, or both'),
+  body('preferences.ageRange.min')
+    .optional()
+    .isInt({ min: 18, max: 100 })
+    .withMessage('Minimum age must be between 18 and 100')
+    .toInt(),
+  body('preferences.ageRange.max')
+    .optional()
+    .isInt({ min: 18, max: 100 })
+    .withMessage('Maximum age must be between 18 and 100')
+    .toInt(),
+  body('preferences.maxDistance')
+    .optional()
+    .isInt({ min: 1, max: 500 })
+    .withMessage('Maximum distance must be between 1 and 500 km')
+    .toInt(),
+  body('interests')
+    .optional()
+    .isArray({ max: MAX_INTERESTS })
+    .withMessage(`Interests must be a list of at most ${MAX_INTERESTS} items`),
+  body('interests.*')
+    .isIn(INTERESTS)
+    .withMessage('Invalid interest'),
+  body('isIncognito')
+    .optional()
+    .isBoolean()
+    .withMessage('Incognito must be true or false')
+    .toBoolean()
 ], updateProfile);
 
 // @route   PUT /api/auth/change-password
@@ -1,8 +1,12 @@
 const express = require('express');
-const { query, validationResult } = require('express-validator');
+const { body, query, validationResult } = require('express-validator');
 const Match = require('../Models/Match');
 const Message = require('../Models/Message');
+const User = require('../Models/User');
+const Report = require('../Models/Report');
 const auth = require('../Middlewares/auth');
+const escapeRegex = require('../Utils/escapeRegex');
+const { UNMATCH_REASONS, REPORT_REASONS } = require('../Config/reasons');
 
 const router = express.Router();
 
@@ -10,7 +14,8 @@ const router = express.Router();
 router.use(auth);
 
 // @route   GET /api/matches
-// @desc    Get user's matches
+// @desc    Get user's matches (type=new for matches without messages, type=conversations for the rest,
+//          q to search by the other user's name)
 // @access  Private
 router.get('/', [
   query('page')
@@ -20,7 +25,16 @@ router.get('/', [
   query('limit')
     .optional()
     .isInt({ min: 1, max: 50 })
-    .withMessage('Limit must be between 1 and 50')
+    .withMessage('Limit must be between 1 and 50'),
+  query('type')
+    .optional()
+    .isIn(['new', 'conversations'])
+    .withMessage('Type must be new or conversations'),
+  query('q')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Search query cannot be more than 100 characters')
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -34,17 +48,43 @@ router.get('/', [
 
     const page = parseInt(req.query.page) || 1;
     const limit = parseInt(req.query.limit) || 20;
+    const options = {
+      type: req.query.type || null,
+      withoutUsers: await req.user.getBlockedUserIds()
+    };
+
+    // Only the people this user is matched with are searched by name
+    if (req.query.q) {
+      options.withUsers = await User.find({
+        _id: { $ne: req.user._id },
+        matches: { $in: req.user.matches },
+        name: { $regex: escapeRegex(req.query.q), $options: 'i' }
+      }).distinct('_id');
+    }
 
-    const matches = await Match.findUserMatches(req.user._id, page, limit);
+    const [matches, total] = await Promise.all([
+      Match.findUserMatches(req.user._id, page, limit, options),
+      Match.countUserMatches(req.user._id, options)
+    ]);
 
-    // Format matches for response
-    const formattedMatches = await Promise.all(
-      matches.map(async (match) => {
-        const matchDetails = await Match.findById(match._id).getMatchDetailsForUser(req.user._id);
-        return matchDetails;
-      })
+    const unreadCounts = await Message.getUnreadCountsByMatch(
+      req.user._id,
+      matches.map(match => match._id)
     );
 
+    // Format matches for response (populate only kept the other user)
+    const formattedMatches = matches
+      .filter(match => match.users.length > 0)
+      .map(match => ({
+        _id: match._id,
+        user: match.users[0],
+        lastMessage: match.lastMessage,
+        lastActivity: match.lastActivity,
+        createdAt: match.createdAt,
+        isNew: !(match.seenBy || []).some(id => id.toString() === req.user._id.toString()),
+        unreadCount: unreadCounts.get(match._id.toString()) || 0
+      }));
+
     res.json({
       success: true,
       data: {
@@ -52,7 +92,7 @@ router.get('/', [
         pagination: {
           page,
           limit,
-          total: formattedMatches.length
+          total
         }
       }
     });
@@ -66,7 +106,7 @@ router.get('/', [
 });
 
 // @route   GET /api/matches/:matchId
-// @desc    Get specific match details
+// @desc    Get specific match details (opening a match clears its "new" badge)
 // @access  Private
 router.get('/:matchId', async (req, res) => {
   try {
@@ -78,7 +118,8 @@ router.get('/:matchId', async (req, res) => {
       isActive: true
     });
 
-    if (!match) {
+    // A blocked match looks like it doesn't exist to both users
+    if (!match || await match.isBlocked()) {
       return res.status(404).json({
         success: false,
         message: 'Match not found'
@@ -86,6 +127,7 @@ router.get('/:matchId', async (req, res) => {
     }
 
     const matchDetails = await match.getMatchDetailsForUser(req.user._id);
+    await match.markSeenBy(req.user._id);
 
     res.json({
       success: true,
@@ -101,10 +143,24 @@ router.get('/:matchId', async (req, res) => {
 });
 
 // @route   DELETE /api/matches/:matchId
-// @desc    Unmatch with a user
+// @desc    Unmatch with a user (optional reason in the body); the pair won't see each other again
 // @access  Private
-router.delete('/:matchId', async (req, res) => {
+router.delete('/:matchId', [
+  body('reason')
+    .optional({ values: 'null' })
+    .isIn(UNMATCH_REASONS)
+    .withMessage(`Reason must be one of: ${UNMATCH_REASONS.join(', ')}`)
+], async (req, res) => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
     const { matchId } = req.params;
 
     const match = await Match.findOne({
@@ -121,7 +177,7 @@ router.delete('/:matchId', async (req, res) => {
     }
 
     // Unmatch
-    await match.unmatch(req.user._id);
+    await match.unmatch(req.user._id, req.body.reason || null);
 
     // Get the other user ID for socket notification
     const otherUserId = match.users.find(
@@ -150,7 +206,7 @@ router.delete('/:matchId', async (req, res) => {
 });
 
 // @route   GET /api/matches/:matchId/messages
-// @desc    Get messages for a specific match
+// @desc    Get messages for a specific match (around=messageId returns the page containing that message)
 // @access  Private
 router.get('/:matchId/messages', [
   query('page')
@@ -160,7 +216,11 @@ router.get('/:matchId/messages', [
   query('limit')
     .optional()
     .isInt({ min: 1, max: 100 })
-    .withMessage('Limit must be between 1 and 100')
+    .withMessage('Limit must be between 1 and 100'),
+  query('around')
+    .optional()
+    .isMongoId()
+    .withMessage('Around must be a valid message ID')
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -173,23 +233,34 @@ router.get('/:matchId/messages', [
     }
 
     const { matchId } = req.params;
-    const page = parseInt(req.query.page) || 1;
+    let page = parseInt(req.query.page) || 1;
     const limit = parseInt(req.query.limit) || 50;
 
-    // Verify match exists and user is part of it
+    // Verify match exists, user is part of it and neither user blocked the other
     const match = await Match.findOne({
       _id: matchId,
       users: req.user._id,
       isActive: true
     });
 
-    if (!match) {
+    if (!match || await match.isBlocked()) {
       return res.status(404).json({
         success: false,
         message: 'Match not found'
       });
     }
 
+    if (req.query.around) {
+      page = await Message.getMessagePage(matchId, req.query.around, limit);
+
+      if (!page) {
+        return res.status(404).json({
+          success: false,
+          message: 'Message not found'
+        });
+      }
+    }
+
     // Get messages
     const messages = await Message.getMatchMessages(matchId, page, limit);
 
@@ -222,13 +293,15 @@ router.get('/:matchId/messages', [
 router.get('/stats/overview', async (req, res) => {
   try {
     const userId = req.user._id;
+    // Matches with blocked users are left out of every number
+    const blockedUserIds = await req.user.getBlockedUserIds();
 
     // Get comprehensive match statistics
-    const matchStats = await Match.getMatchStats(userId);
+    const matchStats = await Match.getMatchStats(userId, { withoutUsers: blockedUserIds });
 
     // Get recent matches (last 7 days)
     const recentMatches = await Match.find({
-      users: userId,
+      users: { $eq: userId, $nin: blockedUserIds },
       isActive: true,
       createdAt: { $gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) }
     }).countDocuments();
@@ -237,7 +310,7 @@ router.get('/stats/overview', async (req, res) => {
     const matchesWithUnread = await Match.aggregate([
       {
         $match: {
-          users: userId,
+          users: { $eq: userId, $nin: blockedUserIds },
           isActive: true
         }
       },
@@ -268,7 +341,7 @@ router.get('/stats/overview', async (req, res) => {
     const unreadMatchesCount = matchesWithUnread.length > 0 ? matchesWithUnread[0].count : 0;
 
     // Get total unread messages count
-    const totalUnreadMessages = await Message.getUnreadCount(userId);
+    const totalUnreadMessages = await Message.getUnreadCount(userId, { withoutSenders: blockedUserIds });
 
     res.json({
       success: true,
@@ -312,10 +385,12 @@ router.get('/activity/recent', [
     const days = parseInt(req.query.days) || 7;
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - days);
+    // Activity with blocked users is left out
+    const blockedUserIds = await req.user.getBlockedUserIds();
 
     // Get recent matches
     const recentMatches = await Match.find({
-      users: req.user._id,
+      users: { $eq: req.user._id, $nin: blockedUserIds },
       isActive: true,
       createdAt: { $gte: startDate }
     })
@@ -330,6 +405,8 @@ router.get('/activity/recent', [
         { sender: req.user._id },
         { recipient: req.user._id }
       ],
+      sender: { $nin: blockedUserIds },
+      recipient: { $nin: blockedUserIds },
       isActive: true,
       createdAt: { $gte: startDate }
     })
@@ -362,18 +439,42 @@ router.get('/activity/recent', [
 });
 
 // @route   POST /api/matches/:matchId/report
-// @desc    Report a match/user
+// @desc    Report the other user in a match, optionally attaching their messages as evidence
 // @access  Private
-router.post('/:matchId/report', async (req, res) => {
+router.post('/:matchId/report', [
+  body('reason')
+    .isIn(REPORT_REASONS)
+    .withMessage(`Reason must be one of: ${REPORT_REASONS.join(', ')}`),
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Description cannot be more than 1000 characters'),
+  body('evidenceMessageIds')
+    .optional()
+    .isArray({ max: 10 })
+    .withMessage('Evidence must be a list of at most 10 messages'),
+  body('evidenceMessageIds.*')
+    .isMongoId()
+    .withMessage('Evidence must contain valid message IDs')
+], async (req, res) => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
     const { matchId } = req.params;
-    const { reason, description } = req.body;
+    const { reason, description, evidenceMessageIds } = req.body;
 
-    // Verify match exists and user is part of it
+    // Unmatched conversations can still be reported
     const match = await Match.findOne({
       _id: matchId,
-      users: req.user._id,
-      isActive: true
+      users: req.user._id
     });
 
     if (!match) {
@@ -383,21 +484,39 @@ router.post('/:matchId/report', async (req, res) => {
       });
     }
 
-    // In a real application, you would save this report to a reports collection
-    // For now, we'll just log it and return success
-    console.log('User report:', {
-      reportedBy: req.user._id,
-      matchId,
+    const reportedUserId = match.users.find(
+      userId => userId.toString() !== req.user._id.toString()
+    );
+
+    const report = await Report.createReport({
+      reporterId: req.user._id,
+      reportedUserId,
+      matchId: match._id,
       reason,
       description,
-      timestamp: new Date()
+      evidenceMessageIds
     });
 
-    res.json({
+    res.status(201).json({
       success: true,
-      message: 'Report submitted successfully. Thank you for helping keep our community safe.'
+      message: 'Report submitted successfully. Thank you for helping keep our community safe.',
+      data: { report: report.toResponse() }
     });
   } catch (error) {
+    if (error.message === 'Invalid evidence messages') {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    if (error.message === 'You have already reported this user') {
+      return res.status(409).json({
+        success: false,
+        message: error.message
+      });
+    }
+
     console.error('Report match error:', error);
     res.status(500).json({
       success: false,
@@ -2,7 +2,9 @@ const express = require('express');
 const { body, query, validationResult } = require('express-validator');
 const Message = require('../Models/Message');
 const Match = require('../Models/Match');
+const User = require('../Models/User');
 const auth = require('../Middlewares/auth');
+const escapeRegex = require('../Utils/escapeRegex');
 
 const router = express.Router();
 
@@ -77,6 +79,14 @@ router.post('/', [
       user => user._id.toString() !== req.user._id.toString()
     );
 
+    // A block in either direction stops the conversation without ending the match
+    if (await User.isBlockedBetween(req.user._id, recipient._id)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You cannot message this user'
+      });
+    }
+
     // Validate message content based on type
     if (messageType === 'text' && (!content || content.trim() === '')) {
       return res.status(400).json({
@@ -175,7 +185,10 @@ router.post('/', [
 // @access  Private
 router.get('/unread-count', async (req, res) => {
   try {
-    const unreadCount = await Message.getUnreadCount(req.user._id);
+    // Messages from blocked users don't count towards the badge
+    const unreadCount = await Message.getUnreadCount(req.user._id, {
+      withoutSenders: await req.user.getBlockedUserIds()
+    });
 
     res.json({
       success: true,
@@ -474,15 +487,19 @@ router.get('/search', [
     }
 
     const { q, matchId, limit = 20 } = req.query;
+    const blockedUserIds = await req.user.getBlockedUserIds();
 
     const searchQuery = {
       $or: [
         { sender: req.user._id },
         { recipient: req.user._id }
       ],
+      // Conversations with blocked users stay out of search
+      sender: { $nin: blockedUserIds },
+      recipient: { $nin: blockedUserIds },
       isActive: true,
       messageType: 'text',
-      content: { $regex: q, $options: 'i' }
+      content: { $regex: escapeRegex(q), $options: 'i' }
     };
 
     if (matchId) {
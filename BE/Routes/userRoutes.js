@@ -1,11 +1,19 @@
 const express = require('express');
-const { body, query, validationResult } = require('express-validator');
+const mongoose = require('mongoose');
+const { body, param, query, validationResult } = require('express-validator');
 const User = require('../Models/User');
 const Match = require('../Models/Match');
+const Swipe = require('../Models/Swipe');
+const Report = require('../Models/Report');
 const auth = require('../Middlewares/auth');
+const { CITY_KEYS } = require('../Config/cities');
+const { REPORT_REASONS } = require('../Config/reasons');
 
 const router = express.Router();
 
+// Users without premium only get this many anonymous previews of who liked them
+const FREE_LIKES_PREVIEW = parseInt(process.env.FREE_LIKES_PREVIEW) || 6;
+
 // All routes are protected
 router.use(auth);
 
@@ -16,7 +24,16 @@ router.get('/discover', [
   query('limit')
     .optional()
     .isInt({ min: 1, max: 50 })
-    .withMessage('Limit must be between 1 and 50')
+    .withMessage('Limit must be between 1 and 50'),
+  query('exclude')
+    .optional()
+    .isString()
+    .custom(value => value.split(',').length <= 100)
+    .withMessage('Exclude must be a comma-separated list of at most 100 user IDs'),
+  query('debug')
+    .optional()
+    .isBoolean()
+    .withMessage('Debug must be a boolean')
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -28,14 +45,41 @@ router.get('/discover', [
       });
     }
 
+    // The score breakdown is computed from exact distances, so only admins may see it
+    const debug = req.query.debug === 'true';
+    if (debug && req.user.role !== 'admin') {
+      return res.status(403).json({
+        success: false,
+        message: 'Score breakdown is only available to admins'
+      });
+    }
+
     const limit = parseInt(req.query.limit) || 10;
-    const potentialMatches = await req.user.getPotentialMatches(limit);
+
+    // Profiles the client already holds in its deck (e.g. while prefetching the next batch)
+    const excludeIds = (req.query.exclude || '')
+      .split(',')
+      .filter(id => mongoose.isValidObjectId(id));
+
+    // Passed profiles whose cool-down is over become available again
+    await req.user.cleanOldSwipes();
+
+    // With debug=true every user carries the compatibility score breakdown
+    const potentialMatches = await req.user.getPotentialMatches(limit, excludeIds, { debug });
+
+    // Nobody left to show: say why and which preferences to relax. Only worked out for an empty batch,
+    // since it counts candidates again for every relaxed preference.
+    const exhaustion = potentialMatches.length === 0
+      ? await req.user.getDeckExhaustion([...excludeIds, ...potentialMatches.map(user => user._id)])
+      : null;
 
     res.json({
       success: true,
       data: {
         users: potentialMatches,
-        count: potentialMatches.length
+        count: potentialMatches.length,
+        superLikesRemaining: await req.user.getSuperLikesRemaining(),
+        exhaustion
       }
     });
   } catch (error) {
@@ -48,7 +92,7 @@ router.get('/discover', [
 });
 
 // @route   POST /api/users/swipe
-// @desc    Swipe on a user (like or pass)
+// @desc    Swipe on a user (like, pass or superlike)
 // @access  Private
 router.post('/swipe', [
   body('targetUserId')
@@ -56,8 +100,8 @@ router.post('/swipe', [
     .isMongoId()
     .withMessage('Valid target user ID is required'),
   body('action')
-    .isIn(['like', 'pass'])
-    .withMessage('Action must be either like or pass')
+    .isIn(['like', 'pass', 'superlike'])
+    .withMessage('Action must be like, pass or superlike')
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -73,7 +117,7 @@ router.post('/swipe', [
 
     // Check if target user exists and is active
     const targetUser = await User.findOne({ _id: targetUserId, isActive: true });
-    if (!targetUser) {
+    if (!targetUser || !(await targetUser.isVisibleTo(req.user))) {
       return res.status(404).json({
         success: false,
         message: 'User not found'
@@ -96,18 +140,22 @@ router.post('/swipe', [
       match: result.match
     };
 
+    if (action === 'superlike') {
+      responseData.superLikesRemaining = await req.user.getSuperLikesRemaining();
+    }
+
     if (result.match) {
-      // Get match details
-      const match = await Match.findById(result.matchId)
-        .populate('users', 'name photos age bio');
-      
-      responseData.matchDetails = match;
-      
-      // Emit match event to both users via Socket.IO
+      responseData.matchDetails = await notifyMatch(req, targetUserId, result.matchId);
+    } else if (action === 'superlike') {
+      // Let the recipient know right away, a plain like stays secret until it's mutual
       const io = req.app.get('io');
-      io.to(targetUserId).emit('new_match', {
-        match: match,
-        message: `You have a new match with ${req.user.name}!`
+      io.to(targetUserId).emit('super_liked', {
+        from: {
+          _id: req.user._id,
+          name: req.user.name,
+          mainPhoto: req.user.mainPhoto
+        },
+        message: `${req.user.name} super liked you!`
       });
     }
 
@@ -123,6 +171,13 @@ router.post('/swipe', [
         message: error.message
       });
     }
+
+    if (error.message === 'Daily super like limit reached') {
+      return res.status(429).json({
+        success: false,
+        message: error.message
+      });
+    }
     
     console.error('Swipe error:', error);
     res.status(500).json({
@@ -132,6 +187,301 @@ router.post('/swipe', [
   }
 });
 
+// @route   GET /api/users/history
+// @desc    Get my swipe history, split into liked and passed profiles
+// @access  Private
+router.get('/history', [
+  query('type')
+    .optional()
+    .isIn(['like', 'pass'])
+    .withMessage('Type must be like or pass'),
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be between 1 and 50')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    const type = req.query.type || 'like';
+    const page = parseInt(req.query.page) || 1;
+    const limit = parseInt(req.query.limit) || 20;
+
+    const { total, entries } = await req.user.getSwipeHistory({
+      type,
+      skip: (page - 1) * limit,
+      limit
+    });
+
+    res.json({
+      success: true,
+      data: {
+        type,
+        entries,
+        pagination: {
+          page,
+          limit,
+          total
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get swipe history error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching swipe history'
+    });
+  }
+});
+
+// @route   POST /api/users/history/:userId/like
+// @desc    Change an earlier pass into a like
+// @access  Private
+router.post('/history/:userId/like', [
+  param('userId')
+    .isMongoId()
+    .withMessage('Valid user ID is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    const { userId } = req.params;
+
+    const targetUser = await User.findOne({ _id: userId, isActive: true });
+    if (!targetUser || !(await targetUser.isVisibleTo(req.user))) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const result = await req.user.likeAfterPass(userId);
+
+    const responseData = {
+      action: 'like',
+      match: result.match
+    };
+
+    if (result.match) {
+      responseData.matchDetails = await notifyMatch(req, userId, result.matchId);
+    }
+
+    res.json({
+      success: true,
+      message: result.match ? 'It\'s a match!' : 'like recorded',
+      data: responseData
+    });
+  } catch (error) {
+    if (
+      error.message === 'No swipe on this user' ||
+      error.message === 'Only passed profiles can be liked from history'
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    console.error('Like from history error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while liking from history'
+    });
+  }
+});
+
+// @route   POST /api/users/rewind
+// @desc    Undo the last swipe
+// @access  Private
+router.post('/rewind', async (req, res) => {
+  try {
+    const result = await req.user.rewindLastSwipe();
+
+    // The swipe is undone either way, but a profile that was deleted, deactivated, or is now hidden
+    // from this user (blocked, incognito) is not sent back
+    let rewoundUser = await User.findOne({ _id: result.userId, isActive: true })
+      .select('-password -matches -boost -blockedUsers -superLikes -discoveryLocation -location.coordinates');
+    if (rewoundUser && !(await rewoundUser.isVisibleTo(req.user))) {
+      rewoundUser = null;
+    }
+    const distance = rewoundUser ? await req.user.getDistanceTo(rewoundUser) : null;
+
+    // Let the other user know the match created by this swipe is gone
+    if (result.dissolvedMatchId) {
+      const io = req.app.get('io');
+      io.to(result.userId.toString()).emit('unmatched', {
+        matchId: result.dissolvedMatchId,
+        unmatchedBy: req.user._id,
+        message: 'A match was removed'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: rewoundUser ? 'Swipe rewound' : 'Swipe rewound, but this profile is no longer available',
+      data: {
+        user: rewoundUser && { ...rewoundUser.toPublicJSON(), distance },
+        action: result.action,
+        dissolvedMatchId: result.dissolvedMatchId,
+        rewindsRemaining: result.rewindsRemaining
+      }
+    });
+  } catch (error) {
+    if (
+      error.message === 'No swipe to rewind' ||
+      error.message.startsWith('You can only rewind') ||
+      error.message.startsWith('Only swipes from the last') ||
+      error.message === 'Cannot rewind a match that already has a conversation'
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    console.error('Rewind error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error during rewind'
+    });
+  }
+});
+
+// @route   GET /api/users/boost
+// @desc    Get boost status and the report of the latest boost
+// @access  Private
+router.get('/boost', async (req, res) => {
+  try {
+    const isBoosted = req.user.isBoosted();
+
+    res.json({
+      success: true,
+      data: {
+        active: isBoosted,
+        endsAt: isBoosted ? req.user.boost.endsAt : null,
+        remainingSeconds: isBoosted
+          ? Math.ceil((req.user.boost.endsAt.getTime() - Date.now()) / 1000)
+          : 0,
+        report: await req.user.getBoostReport()
+      }
+    });
+  } catch (error) {
+    console.error('Get boost error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching boost status'
+    });
+  }
+});
+
+// @route   POST /api/users/boost
+// @desc    Boost profile in other users' discover results
+// @access  Private
+router.post('/boost', async (req, res) => {
+  try {
+    await req.user.startBoost();
+
+    res.json({
+      success: true,
+      message: 'Boost started',
+      data: {
+        active: true,
+        endsAt: req.user.boost.endsAt,
+        remainingSeconds: Math.ceil((req.user.boost.endsAt.getTime() - Date.now()) / 1000),
+        report: await req.user.getBoostReport()
+      }
+    });
+  } catch (error) {
+    if (error.message === 'Boost is already active') {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    console.error('Start boost error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while starting boost'
+    });
+  }
+});
+
+// @route   GET /api/users/likes-received
+// @desc    Get users who liked me and I haven't swiped on yet
+// @access  Private
+router.get('/likes-received', [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be between 1 and 50')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    const page = parseInt(req.query.page) || 1;
+    const limit = parseInt(req.query.limit) || 20;
+    const { isPremium } = req.user;
+
+    // Without premium only the first few likers are previewed and nothing identifies them,
+    // not even a photo URL the client is expected to blur
+    const { total, users } = isPremium
+      ? await req.user.getLikesReceived({ skip: (page - 1) * limit, limit })
+      : await req.user.getLikesReceived({ limit: FREE_LIKES_PREVIEW });
+
+    res.json({
+      success: true,
+      data: {
+        isPremium,
+        count: total,
+        users: isPremium
+          ? users
+          : users.map(liker => ({ superLike: liker.superLike })),
+        pagination: {
+          page: isPremium ? page : 1,
+          limit: isPremium ? limit : FREE_LIKES_PREVIEW,
+          total
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get likes received error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching likes'
+    });
+  }
+});
+
 // @route   GET /api/users/profile/:userId
 // @desc    Get user profile by ID
 // @access  Private
@@ -140,18 +490,24 @@ router.get('/profile/:userId', async (req, res) => {
     const { userId } = req.params;
 
     const user = await User.findOne({ _id: userId, isActive: true })
-      .select('-password -swipedUsers -matches');
+      .select('-password -matches -boost -blockedUsers -superLikes -discoveryLocation -location.coordinates');
 
-    if (!user) {
+    // Incognito profiles look like they don't exist to anyone they haven't liked
+    if (!user || !(await user.isVisibleTo(req.user))) {
       return res.status(404).json({
         success: false,
         message: 'User not found'
       });
     }
 
+    // Interests both users picked, for highlighting on the profile
+    const myInterests = new Set(req.user.interests);
+    const sharedInterests = user.interests.filter(interest => myInterests.has(interest));
+    const distance = await req.user.getDistanceTo(user);
+
     res.json({
       success: true,
-      data: { user }
+      data: { user: user.toPublicJSON(), sharedInterests, distance }
     });
   } catch (error) {
     console.error('Get profile error:', error);
@@ -162,6 +518,78 @@ router.get('/profile/:userId', async (req, res) => {
   }
 });
 
+// @route   POST /api/users/profile/:userId/report
+// @desc    Report a user from their profile, e.g. a card in the deck
+// @access  Private
+router.post('/profile/:userId/report', [
+  param('userId')
+    .isMongoId()
+    .withMessage('Valid user ID is required'),
+  body('reason')
+    .isIn(REPORT_REASONS)
+    .withMessage(`Reason must be one of: ${REPORT_REASONS.join(', ')}`),
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Description cannot be more than 1000 characters')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    const { userId } = req.params;
+    const { reason, description } = req.body;
+
+    const reportedUser = await User.findOne({ _id: userId, isActive: true });
+    if (!reportedUser || !(await reportedUser.isVisibleTo(req.user))) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const report = await Report.createReport({
+      reporterId: req.user._id,
+      reportedUserId: reportedUser._id,
+      reason,
+      description
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Report submitted successfully. Thank you for helping keep our community safe.',
+      data: { report: report.toResponse() }
+    });
+  } catch (error) {
+    if (error.message === 'Cannot report yourself') {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    if (error.message === 'You have already reported this user') {
+      return res.status(409).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    console.error('Report user error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while submitting report'
+    });
+  }
+});
+
 // @route   POST /api/users/upload-photo
 // @desc    Upload user photo
 // @access  Private
@@ -363,6 +791,175 @@ router.put('/update-location', [
   }
 });
 
+// @route   PUT /api/users/passport
+// @desc    Browse and swipe from another city (Passport mode)
+// @access  Private
+router.put('/passport', [
+  body('city')
+    .isIn(CITY_KEYS)
+    .withMessage('City is not available for Passport')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    await req.user.setPassport(req.body.city);
+
+    res.json({
+      success: true,
+      message: 'Passport location set',
+      data: {
+        passport: req.user.passport
+      }
+    });
+  } catch (error) {
+    console.error('Set passport error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while setting passport location'
+    });
+  }
+});
+
+// @route   DELETE /api/users/passport
+// @desc    Turn Passport mode off and browse from the real location again
+// @access  Private
+router.delete('/passport', async (req, res) => {
+  try {
+    await req.user.clearPassport();
+
+    res.json({
+      success: true,
+      message: 'Passport turned off',
+      data: {
+        passport: req.user.passport
+      }
+    });
+  } catch (error) {
+    console.error('Clear passport error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while turning off passport'
+    });
+  }
+});
+
+// @route   GET /api/users/blocked
+// @desc    Get the users this user has blocked
+// @access  Private
+router.get('/blocked', async (req, res) => {
+  try {
+    const users = await req.user.getBlockedUsers();
+
+    res.json({
+      success: true,
+      data: { users }
+    });
+  } catch (error) {
+    console.error('Get blocked users error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching blocked users'
+    });
+  }
+});
+
+// @route   POST /api/users/blocked/:userId
+// @desc    Block a user, hiding both users from each other's discovery, matches and messages
+// @access  Private
+router.post('/blocked/:userId', [
+  param('userId')
+    .isMongoId()
+    .withMessage('Valid user ID is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    const { userId } = req.params;
+
+    const targetUser = await User.findById(userId);
+    if (!targetUser) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    await req.user.blockUser(targetUser._id);
+
+    res.json({
+      success: true,
+      message: 'User blocked'
+    });
+  } catch (error) {
+    if (error.message === 'Cannot block yourself' || error.message === 'User is already blocked') {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    console.error('Block user error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while blocking user'
+    });
+  }
+});
+
+// @route   DELETE /api/users/blocked/:userId
+// @desc    Unblock a user
+// @access  Private
+router.delete('/blocked/:userId', [
+  param('userId')
+    .isMongoId()
+    .withMessage('Valid user ID is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    await req.user.unblockUser(req.params.userId);
+
+    res.json({
+      success: true,
+      message: 'User unblocked'
+    });
+  } catch (error) {
+    if (error.message === 'User is not blocked') {
+      return res.status(404).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    console.error('Unblock user error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while unblocking user'
+    });
+  }
+});
+
 // @route   GET /api/users/stats
 // @desc    Get user statistics
 // @access  Private
@@ -370,18 +967,19 @@ router.get('/stats', async (req, res) => {
   try {
     const userId = req.user._id;
     
-    // Get match statistics
-    const matchStats = await Match.getMatchStats(userId);
-    
-    // Get swipe statistics
-    const totalSwipes = req.user.swipedUsers.length;
-    const likes = req.user.swipedUsers.filter(swipe => swipe.action === 'like').length;
-    const passes = req.user.swipedUsers.filter(swipe => swipe.action === 'pass').length;
+    // Get match statistics, leaving out matches hidden by a block (same numbers as /api/matches/stats/overview)
+    const matchStats = await Match.getMatchStats(userId, {
+      withoutUsers: await req.user.getBlockedUserIds()
+    });
     
-    // Get recent activity
-    const recentSwipes = req.user.swipedUsers.filter(
-      swipe => swipe.swipedAt > new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
-    ).length;
+    // Get swipe statistics (including the last 7 days)
+    const {
+      total: totalSwipes,
+      likes,
+      superLikes,
+      passes,
+      recentWeek: recentSwipes
+    } = await Swipe.getSwipeStats(userId);
 
     res.json({
       success: true,
@@ -389,13 +987,15 @@ router.get('/stats', async (req, res) => {
         swipes: {
           total: totalSwipes,
           likes,
+          superLikes,
+          superLikesRemaining: await req.user.getSuperLikesRemaining(),
           passes,
           recentWeek: recentSwipes,
-          likeRate: totalSwipes > 0 ? ((likes / totalSwipes) * 100).toFixed(1) : 0
+          likeRate: totalSwipes > 0 ? (((likes + superLikes) / totalSwipes) * 100).toFixed(1) : 0
         },
         matches: matchStats,
         profile: {
-          completeness: calculateProfileCompleteness(req.user),
+          completeness: User.calculateProfileCompleteness(req.user),
           photosCount: req.user.photos.length,
           joinedDate: req.user.createdAt,
           lastActive: req.user.lastActive
@@ -411,23 +1011,19 @@ router.get('/stats', async (req, res) => {
   }
 });
 
-// Helper function to calculate profile completeness
-function calculateProfileCompleteness(user) {
-  let completeness = 0;
-  const fields = ['name', 'age', 'bio', 'gender', 'interestedIn'];
+// Helper to load a new match and tell the other user about it
+async function notifyMatch(req, targetUserId, matchId) {
+  const match = await Match.findById(matchId)
+    .populate('users', 'name photos age bio');
   
-  fields.forEach(field => {
-    if (user[field] && user[field].toString().trim() !== '') {
-      completeness += 20;
-    }
+  // Emit match event to both users via Socket.IO
+  const io = req.app.get('io');
+  io.to(targetUserId.toString()).emit('new_match', {
+    match: match,
+    message: `You have a new match with ${req.user.name}!`
   });
   
-  // Photos bonus
-  if (user.photos.length > 0) {
-    completeness += Math.min(user.photos.length * 10, 30);
-  }
-  
-  return Math.min(completeness, 100);
+  return match;
 }
 
 module.exports = router;
\ No newline at end of file
@@ -0,0 +1,53 @@
+const mongoose = require('mongoose');
+const User = require('../Models/User');
+const { CITIES } = require('../Config/cities');
+require('dotenv').config({ path: require('path').join(__dirname, '..', '.env') });
+
+// Sets discoveryLocation on users created before it existed: the Passport city for users browsing via Passport,
+// otherwise their real location. Then swaps the old location index for the discoveryLocation one.
+// Safe to run more than once: only users without a discoveryLocation are touched.
+async function backfillDiscoveryLocations() {
+  try {
+    console.log('🔄 Connecting to MongoDB...');
+    await mongoose.connect(process.env.MONGODB_URI);
+    console.log('✅ Connected to MongoDB');
+
+    const missing = { discoveryLocation: { $exists: false } };
+
+    // Passport users are found in the city they picked
+    let passportUsers = 0;
+    for (const city of Object.keys(CITIES)) {
+      const result = await User.collection.updateMany(
+        { ...missing, 'passport.city': city },
+        { $set: { discoveryLocation: { type: 'Point', coordinates: CITIES[city] } } }
+      );
+      passportUsers += result.modifiedCount;
+    }
+
+    // Everyone else where they really are
+    const result = await User.collection.updateMany(missing, [
+      {
+        $set: {
+          discoveryLocation: {
+            type: 'Point',
+            coordinates: { $ifNull: ['$location.coordinates', [0, 0]] }
+          }
+        }
+      }
+    ]);
+
+    await User.syncIndexes();
+
+    console.log('✅ Discovery location backfill finished');
+    console.log('✈️  Passport users updated:', passportUsers);
+    console.log('📍 Other users updated:', result.modifiedCount);
+
+  } catch (error) {
+    console.error('❌ Error backfilling discovery locations:', error);
+  } finally {
+    mongoose.disconnect();
+    console.log('🔌 Disconnected from MongoDB');
+  }
+}
+
+backfillDiscoveryLocations();
@@ -0,0 +1,79 @@
+const mongoose = require('mongoose');
+const Match = require('../Models/Match');
+const Message = require('../Models/Message');
+const User = require('../Models/User');
+require('dotenv').config({ path: require('path').join(__dirname, '..', '.env') });
+
+// Identifies a pair of users regardless of who swiped first (same key as Models/Match.js)
+const getPairKey = userIds => userIds.map(id => id.toString()).sort().join('_');
+
+// Sets pairKey on matches created before it existed, so the one-active-match-per-pair index covers them.
+// When a legacy pair already has two active matches, the oldest one is kept and the newer one's messages
+// are moved into it before it is deactivated.
+// Safe to run more than once: only matches without a pairKey are touched.
+async function backfillPairKeys() {
+  try {
+    console.log('🔄 Connecting to MongoDB...');
+    await mongoose.connect(process.env.MONGODB_URI);
+    console.log('✅ Connected to MongoDB');
+
+    // Build the unique pair key index before filling it in so duplicates are rejected
+    await Match.syncIndexes();
+
+    const cursor = Match.collection.find(
+      { pairKey: { $exists: false } },
+      { projection: { users: 1, isActive: 1 }, sort: { createdAt: 1 } }
+    );
+
+    let matchesUpdated = 0;
+    let duplicatesMerged = 0;
+
+    for await (const match of cursor) {
+      const pairKey = getPairKey(match.users);
+
+      try {
+        await Match.collection.updateOne({ _id: match._id }, { $set: { pairKey } });
+        matchesUpdated += 1;
+      } catch (error) {
+        if (error.code !== 11000) {
+          throw error;
+        }
+
+        // Another active match already holds this pair: fold this one into it
+        const kept = await Match.collection.findOne({ pairKey, isActive: true });
+        const duplicate = await Match.collection.findOne({ _id: match._id });
+
+        await Message.collection.updateMany({ match: duplicate._id }, { $set: { match: kept._id } });
+
+        const update = { $addToSet: { messages: { $each: duplicate.messages || [] } } };
+        if (duplicate.lastActivity > kept.lastActivity) {
+          update.$set = { lastActivity: duplicate.lastActivity, lastMessage: duplicate.lastMessage };
+        }
+        await Match.collection.updateOne({ _id: kept._id }, update);
+
+        // Not an unmatch, so unmatchedAt stays empty and the pair can still see each other
+        await Match.collection.updateOne(
+          { _id: duplicate._id },
+          { $set: { pairKey, isActive: false, messages: [], lastMessage: null } }
+        );
+        await User.collection.updateMany(
+          { _id: { $in: duplicate.users } },
+          { $pull: { matches: duplicate._id } }
+        );
+        duplicatesMerged += 1;
+      }
+    }
+
+    console.log('✅ Pair key backfill finished');
+    console.log('💘 Matches updated:', matchesUpdated);
+    console.log('🔗 Duplicate matches merged:', duplicatesMerged);
+
+  } catch (error) {
+    console.error('❌ Error backfilling pair keys:', error);
+  } finally {
+    mongoose.disconnect();
+    console.log('🔌 Disconnected from MongoDB');
+  }
+}
+
+backfillPairKeys();
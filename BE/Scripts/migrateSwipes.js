@@ -0,0 +1,63 @@
+const mongoose = require('mongoose');
+const User = require('../Models/User');
+const Swipe = require('../Models/Swipe');
+require('dotenv').config({ path: require('path').join(__dirname, '..', '.env') });
+
+// Moves the swipes embedded in user documents (the old swipedUsers array) into the swipes collection.
+// Safe to run more than once: existing swipes are kept and each user is cleaned up once migrated.
+async function migrateSwipes() {
+  try {
+    console.log('🔄 Connecting to MongoDB...');
+    await mongoose.connect(process.env.MONGODB_URI);
+    console.log('✅ Connected to MongoDB');
+
+    // Build the unique swiper/target index before inserting so duplicates are rejected
+    await Swipe.syncIndexes();
+
+    // swipedUsers is no longer in the schema, so read it straight from the collection
+    const cursor = User.collection.find(
+      { 'swipedUsers.0': { $exists: true } },
+      { projection: { swipedUsers: 1 } }
+    );
+
+    let usersMigrated = 0;
+    let swipesMigrated = 0;
+
+    for await (const user of cursor) {
+      const operations = user.swipedUsers
+        .filter(swipe => swipe.userId && swipe.action)
+        .map(swipe => ({
+          updateOne: {
+            filter: { swiper: user._id, target: swipe.userId },
+            update: {
+              $setOnInsert: {
+                action: swipe.action,
+                swipedAt: swipe.swipedAt || new Date()
+              }
+            },
+            upsert: true
+          }
+        }));
+
+      if (operations.length > 0) {
+        const result = await Swipe.bulkWrite(operations, { ordered: false });
+        swipesMigrated += result.upsertedCount;
+      }
+
+      await User.collection.updateOne({ _id: user._id }, { $unset: { swipedUsers: '' } });
+      usersMigrated += 1;
+    }
+
+    console.log('✅ Swipe migration finished');
+    console.log('👤 Users migrated:', usersMigrated);
+    console.log('💘 Swipes migrated:', swipesMigrated);
+
+  } catch (error) {
+    console.error('❌ Error migrating swipes:', error);
+  } finally {
+    mongoose.disconnect();
+    console.log('🔌 Disconnected from MongoDB');
+  }
+}
+
+migrateSwipes();
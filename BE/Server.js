@@ -3,6 +3,7 @@ const mongoose = require('mongoose');
 const cors = require('cors');
 const helmet = require('helmet');
 const rateLimit = require('express-rate-limit');
+const jwt = require('jsonwebtoken');
 const path = require('path');
 require('dotenv').config({ path: path.join(__dirname, '.env') });
 
@@ -11,6 +12,7 @@ const authRoutes = require('./Routes/authRoutes');
 const userRoutes = require('./Routes/userRoutes');
 const matchRoutes = require('./Routes/matchRoutes');
 const messageRoutes = require('./Routes/messageRoutes');
+const User = require('./Models/User');
 
 // Create Express app
 const app = express();
@@ -157,29 +159,55 @@ const io = new Server(server, {
   cors: corsOptions
 });
 
+// Authenticate sockets with the same JWT as the REST API (sent as auth.token)
+io.use((socket, next) => {
+  try {
+    const decoded = jwt.verify(socket.handshake.auth?.token, process.env.JWT_SECRET);
+    socket.userId = decoded.userId.toString();
+    next();
+  } catch (error) {
+    next(new Error('Authentication error'));
+  }
+});
+
+// Forward an event to another user's room, unless either of them has blocked the other
+const relayToUser = async (socket, event, data) => {
+  try {
+    if (!data?.recipientId || await User.isBlockedBetween(socket.userId, data.recipientId)) {
+      return;
+    }
+    socket.to(data.recipientId.toString()).emit(event, data);
+  } catch (error) {
+    console.error(`Socket ${event} error:`, error.message);
+  }
+};
+
 // Socket.IO connection handling
 io.on('connection', (socket) => {
   console.log(`👤 User connected: ${socket.id}`);
   
-  // Join user to their personal room
-  socket.on('join', (userId) => {
-    socket.join(userId);
-    console.log(`👤 User ${userId} joined their room`);
+  // Join user to their personal room, which the API emits to
+  socket.join(socket.userId);
+  console.log(`👤 User ${socket.userId} joined their room`);
+  
+  // Kept for older clients; a socket can only ever join its own room
+  socket.on('join', () => {
+    socket.join(socket.userId);
   });
   
   // Handle sending messages
   socket.on('send_message', (data) => {
     // Emit message to the recipient
-    socket.to(data.recipientId).emit('receive_message', data);
+    relayToUser(socket, 'receive_message', data);
   });
   
   // Handle typing indicators
   socket.on('typing', (data) => {
-    socket.to(data.recipientId).emit('user_typing', data);
+    relayToUser(socket, 'user_typing', data);
   });
   
   socket.on('stop_typing', (data) => {
-    socket.to(data.recipientId).emit('user_stop_typing', data);
+    relayToUser(socket, 'user_stop_typing', data);
   });
   
   // Handle disconnection
@@ -0,0 +1,67 @@
+const mongoose = require('mongoose');
+const { MongoMemoryReplSet } = require('mongodb-memory-server');
+const User = require('../Models/User');
+const Match = require('../Models/Match');
+const Swipe = require('../Models/Swipe');
+
+// Both users liking each other at the same moment must still end up with a single match
+describe('concurrent mutual swipes', () => {
+  let replSet;
+
+  beforeAll(async () => {
+    if (process.env.MONGODB_URI) {
+      // An existing server (a replica set runs createForPair in a transaction like in production);
+      // the test gets a database of its own that is dropped afterwards
+      await mongoose.connect(process.env.MONGODB_URI, { dbName: `tinderv2-test-${Date.now()}` });
+    } else {
+      // A throwaway replica set. mongodb-memory-server downloads mongod unless MONGOMS_SYSTEM_BINARY
+      // points at one that is already installed
+      replSet = await MongoMemoryReplSet.create({ replSet: { count: 1 } });
+      await mongoose.connect(replSet.getUri());
+    }
+    await Promise.all([User.syncIndexes(), Match.syncIndexes(), Swipe.syncIndexes()]);
+  }, 120000);
+
+  afterAll(async () => {
+    if (!replSet && mongoose.connection.readyState === 1) {
+      await mongoose.connection.dropDatabase();
+    }
+    await mongoose.disconnect();
+    await replSet?.stop();
+  });
+
+  const createUser = (name, gender, interestedIn) => User.create({
+    name,
+    email: `${name.toLowerCase()}@example.com`,
+    password: 'password123',
+    age: 25,
+    gender,
+    interestedIn
+  });
+
+  it('creates exactly one active match and adds it to both users', async () => {
+    const [alice, bob] = await Promise.all([
+      createUser('Alice', 'female', 'male'),
+      createUser('Bob', 'male', 'female')
+    ]);
+
+    const results = await Promise.all([
+      alice.addSwipe(bob._id, 'like'),
+      bob.addSwipe(alice._id, 'like')
+    ]);
+
+    const matches = await Match.find({ users: { $all: [alice._id, bob._id] }, isActive: true });
+    expect(matches).toHaveLength(1);
+
+    const matchId = matches[0]._id.toString();
+    // At least one request sees the other like, and every request that reports a match points at the same one
+    expect(results.some(result => result.match)).toBe(true);
+    results
+      .filter(result => result.match)
+      .forEach(result => expect(result.matchId.toString()).toBe(matchId));
+
+    const [aliceAfter, bobAfter] = await Promise.all([User.findById(alice._id), User.findById(bob._id)]);
+    expect(aliceAfter.matches.map(id => id.toString())).toEqual([matchId]);
+    expect(bobAfter.matches.map(id => id.toString())).toEqual([matchId]);
+  });
+});
@@ -0,0 +1,4 @@
+// Escapes user input so it can be used as a literal inside a RegExp / $regex
+const escapeRegex = text => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+module.exports = escapeRegex;
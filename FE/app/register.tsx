@@ -18,6 +18,7 @@ import { Picker } from '@react-native-picker/picker';
 import { router } from 'expo-router';
 import { useAuth } from '../context/AuthContext';
 import { RegisterData } from '../services/api';
+import { InterestPicker } from '../components/interest-picker';
 
 const { width, height } = Dimensions.get('window');
 
@@ -37,6 +38,7 @@ export default function RegisterScreen() {
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [showGenderPicker, setShowGenderPicker] = useState(false);
   const [showInterestedPicker, setShowInterestedPicker] = useState(false);
+  const [interests, setInterests] = useState<string[]>([]);
 
   const { register, error, clearError } = useAuth();
 
@@ -117,6 +119,7 @@ export default function RegisterScreen() {
         gender: formData.gender,
         interestedIn: formData.interestedIn,
         bio: formData.bio.trim() || undefined,
+        interests,
         location: {
           city: 'Ho Chi Minh City',
           country: 'Vietnam',
@@ -336,6 +339,15 @@ export default function RegisterScreen() {
               />
             </View>
 
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Sở thích (Tùy chọn)</Text>
+              <InterestPicker
+                selected={interests}
+                onChange={setInterests}
+                disabled={isLoading}
+              />
+            </View>
+
             <View style={styles.inputContainer}>
               <Text style={styles.label}>Mật khẩu</Text>
               <TextInput
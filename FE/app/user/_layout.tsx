@@ -1,66 +1,110 @@
 import { Tabs } from 'expo-router';
 import React from 'react';
 import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import { DiscoverProvider } from '../../context/DiscoverContext';
 
 export default function UserTabLayout() {
   return (
-    <Tabs
-      screenOptions={{
-        tabBarActiveTintColor: '#FF4458',
-        tabBarInactiveTintColor: '#999',
-        headerShown: false,
-        tabBarStyle: {
-          backgroundColor: 'white',
-          borderTopWidth: 1,
-          borderTopColor: '#e0e0e0',
-          height: 80,
-          paddingBottom: 12,
-          paddingTop: 12,
-        },
-        tabBarLabelStyle: {
-          fontSize: 12,
-          fontWeight: '500',
-        },
-      }}>
-      <Tabs.Screen
-        name="home"
-        options={{
-          title: 'Khám phá',
-          tabBarIcon: ({ color, focused }) => (
-            <Ionicons 
-              name={focused ? "heart" : "heart-outline"} 
-              size={24} 
-              color={color} 
-            />
-          ),
-        }}
-      />
-      <Tabs.Screen
-        name="matches"
-        options={{
-          title: 'Matches',
-          tabBarIcon: ({ color, focused }) => (
-            <Ionicons 
-              name={focused ? "chatbubbles" : "chatbubbles-outline"} 
-              size={24} 
-              color={color} 
-            />
-          ),
-        }}
-      />
-      <Tabs.Screen
-        name="profile"
-        options={{
-          title: 'Hồ sơ',
-          tabBarIcon: ({ color, focused }) => (
-            <Ionicons 
-              name={focused ? "person" : "person-outline"} 
-              size={24} 
-              color={color} 
-            />
-          ),
-        }}
-      />
-    </Tabs>
+    <DiscoverProvider>
+      <Tabs
+        screenOptions={{
+          tabBarActiveTintColor: '#FF4458',
+          tabBarInactiveTintColor: '#999',
+          headerShown: false,
+          tabBarStyle: {
+            backgroundColor: 'white',
+            borderTopWidth: 1,
+            borderTopColor: '#e0e0e0',
+            height: 80,
+            paddingBottom: 12,
+            paddingTop: 12,
+          },
+          tabBarLabelStyle: {
+            fontSize: 12,
+            fontWeight: '500',
+          },
+        }}>
+        <Tabs.Screen
+          name="home"
+          options={{
+            title: 'Khám phá',
+            tabBarIcon: ({ color, focused }) => (
+              <Ionicons 
+                name={focused ? "heart" : "heart-outline"} 
+                size={24} 
+                color={color} 
+              />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="likes"
+          options={{
+            title: 'Lượt thích',
+            tabBarIcon: ({ color, focused }) => (
+              <Ionicons 
+                name={focused ? "star" : "star-outline"} 
+                size={24} 
+                color={color} 
+              />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="matches"
+          options={{
+            title: 'Matches',
+            tabBarIcon: ({ color, focused }) => (
+              <Ionicons 
+                name={focused ? "chatbubbles" : "chatbubbles-outline"} 
+                size={24} 
+                color={color} 
+              />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="profile"
+          options={{
+            title: 'Hồ sơ',
+            tabBarIcon: ({ color, focused }) => (
+              <Ionicons 
+                name={focused ? "person" : "person-outline"} 
+                size={24} 
+                color={color} 
+              />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="profile/[userId]"
+          options={{
+            href: null,
+            tabBarStyle: { display: 'none' },
+          }}
+        />
+        <Tabs.Screen
+          name="history"
+          options={{
+            href: null,
+            tabBarStyle: { display: 'none' },
+          }}
+        />
+        <Tabs.Screen
+          name="chat/[matchId]"
+          options={{
+            href: null,
+            tabBarStyle: { display: 'none' },
+          }}
+        />
+        <Tabs.Screen
+          name="blocked"
+          options={{
+            href: null,
+            tabBarStyle: { display: 'none' },
+          }}
+        />
+      </Tabs>
+    </DiscoverProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  FlatList,
+  TouchableOpacity,
+  Image,
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useBlockedUsers } from '../../hooks/use-blocked-users';
+import { BlockedUser } from '../../services/api';
+
+const getPhotoUrl = (user: BlockedUser) =>
+  user.photos?.find(photo => photo.isMain)?.url ?? user.photos?.[0]?.url ?? null;
+
+export default function BlockedUsersScreen() {
+  const { users, isLoading, isRefreshing, error, refresh, unblock } = useBlockedUsers();
+  const [unblockingId, setUnblockingId] = useState<string | null>(null);
+
+  const handleUnblock = (user: BlockedUser) => {
+    Alert.alert(
+      `Bỏ chặn ${user.name}?`,
+      'Hai bạn có thể nhìn thấy nhau và nhắn tin lại nếu đã ghép đôi trước đó.',
+      [
+        { text: 'Hủy', style: 'cancel' },
+        {
+          text: 'Bỏ chặn',
+          onPress: async () => {
+            setUnblockingId(user._id);
+            try {
+              await unblock(user._id);
+            } catch (err: any) {
+              Alert.alert('Lỗi', err.message || 'Không thể bỏ chặn người này');
+            } finally {
+              setUnblockingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderUser = ({ item }: { item: BlockedUser }) => {
+    const photoUrl = getPhotoUrl(item);
+
+    return (
+      <View style={styles.entry}>
+        <View style={styles.avatar}>
+          {photoUrl ? (
+            <Image source={{ uri: photoUrl }} style={styles.avatarImage} />
+          ) : (
+            <Text style={styles.avatarInitial}>{item.name.charAt(0).toUpperCase()}</Text>
+          )}
+        </View>
+
+        <Text style={styles.entryName} numberOfLines={1}>
+          {item.name}
+        </Text>
+
+        <TouchableOpacity
+          style={styles.unblockButton}
+          onPress={() => handleUnblock(item)}
+          disabled={unblockingId === item._id}
+        >
+          {unblockingId === item._id ? (
+            <ActivityIndicator size="small" color="#e91e63" />
+          ) : (
+            <Text style={styles.unblockText}>Bỏ chặn</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderEmpty = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color="#e91e63" />
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.emptyState}>
+        <Ionicons name="ban-outline" size={40} color="#ddd" />
+        <Text style={styles.emptyText}>{error || 'Bạn chưa chặn ai'}</Text>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Ionicons name="chevron-back" size={28} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Người đã chặn</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <FlatList
+        data={users}
+        keyExtractor={item => item._id}
+        renderItem={renderUser}
+        contentContainerStyle={styles.list}
+        ListHeaderComponent={
+          users.length > 0 ? (
+            <Text style={styles.hint}>
+              Những người này không thể nhìn thấy hồ sơ hay nhắn tin cho bạn, và bạn cũng sẽ không thấy họ.
+            </Text>
+          ) : null
+        }
+        ListEmptyComponent={renderEmpty}
+        refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={refresh} tintColor="#e91e63" />}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  headerSpacer: {
+    width: 28,
+  },
+  list: {
+    flexGrow: 1,
+    paddingVertical: 8,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#999',
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  avatar: {
+    width: 52,
+    height: 52,
+    borderRadius: 26,
+    backgroundColor: '#f8bbd0',
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+  avatarImage: {
+    width: '100%',
+    height: '100%',
+  },
+  avatarInitial: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  entryName: {
+    flex: 1,
+    marginLeft: 14,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  unblockButton: {
+    minWidth: 84,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: '#e91e63',
+    alignItems: 'center',
+  },
+  unblockText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#e91e63',
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    marginTop: 15,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,447 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  Image,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '../../../context/AuthContext';
+import { useConversation } from '../../../hooks/use-conversation';
+import { useSocketEvent } from '../../../hooks/use-socket-event';
+import { UnmatchSheet } from '../../../components/unmatch-sheet';
+import { ReportWizard } from '../../../components/report-wizard';
+import { apiService, Message, UnmatchReason, UserSummary } from '../../../services/api';
+import { UnmatchedEvent } from '../../../services/socket';
+
+const formatTime = (date: string) =>
+  new Date(date).toLocaleTimeString('vi-VN', { hour: '2-digit', minute: '2-digit' });
+
+const getPhotoUrl = (user: UserSummary) =>
+  user.photos?.find(photo => photo.isMain)?.url ?? user.photos?.[0]?.url ?? null;
+
+const HIGHLIGHT_MS = 3000;
+
+function Conversation({ matchId, focusMessageId }: { matchId: string; focusMessageId?: string }) {
+  const { user } = useAuth();
+  const {
+    match,
+    messages,
+    isLoading,
+    isFetchingMore,
+    error,
+    reload,
+    loadOlder,
+    send,
+  } = useConversation(matchId, focusMessageId);
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [highlightedId, setHighlightedId] = useState(focusMessageId ?? null);
+  const [showUnmatch, setShowUnmatch] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const listRef = useRef<FlatList<Message>>(null);
+  const hasFocusedRef = useRef(false);
+
+  // Scroll to the message opened from search once it is loaded
+  const focusIndex = focusMessageId ? messages.findIndex(message => message._id === focusMessageId) : -1;
+  useEffect(() => {
+    if (focusIndex === -1 || hasFocusedRef.current) return;
+    hasFocusedRef.current = true;
+    listRef.current?.scrollToIndex({ index: focusIndex, viewPosition: 0.5, animated: false });
+  }, [focusIndex]);
+
+  // Then clear its highlight after a moment
+  useEffect(() => {
+    if (!highlightedId || isLoading) return;
+    const timeout = setTimeout(() => setHighlightedId(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timeout);
+  }, [highlightedId, isLoading]);
+
+  // The other person unmatched while the conversation is open
+  useSocketEvent<UnmatchedEvent>('unmatched', event => {
+    if (event.matchId !== matchId) return;
+    Alert.alert('Cuộc trò chuyện đã kết thúc', 'Bạn không thể nhắn tin với người này nữa.');
+    router.back();
+  });
+
+  const handleUnmatch = async (reason: UnmatchReason | null) => {
+    try {
+      await apiService.unmatch(matchId, reason ?? undefined);
+      setShowUnmatch(false);
+      router.back();
+    } catch (err: any) {
+      Alert.alert('Lỗi', err.message || 'Không thể hủy ghép đôi');
+    }
+  };
+
+  const handleBlock = () => {
+    if (!match) return;
+
+    Alert.alert(
+      `Chặn ${match.user.name}?`,
+      'Hai bạn sẽ không thể nhìn thấy hay nhắn tin cho nhau. Bạn có thể bỏ chặn trong phần Cài đặt.',
+      [
+        { text: 'Hủy', style: 'cancel' },
+        {
+          text: 'Chặn',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await apiService.blockUser(match.user._id);
+              router.back();
+            } catch (err: any) {
+              Alert.alert('Lỗi', err.message || 'Không thể chặn người này');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const showOptions = () => {
+    Alert.alert(match?.user.name ?? '', undefined, [
+      { text: 'Báo cáo', onPress: () => setShowReport(true) },
+      { text: 'Chặn', style: 'destructive', onPress: handleBlock },
+      { text: 'Hủy ghép đôi', style: 'destructive', onPress: () => setShowUnmatch(true) },
+      { text: 'Đóng', style: 'cancel' },
+    ]);
+  };
+
+  const handleSend = async () => {
+    const content = draft.trim();
+    if (!content) return;
+
+    setIsSending(true);
+    try {
+      await send(content);
+      setDraft('');
+    } catch (err: any) {
+      Alert.alert('Lỗi', err.message || 'Không thể gửi tin nhắn');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (!match) {
+    return (
+      <SafeAreaView style={styles.centered}>
+        {isLoading ? (
+          <ActivityIndicator size="large" color="#e91e63" />
+        ) : (
+          <>
+            <Text style={styles.errorText}>{error || 'Không tìm thấy cuộc trò chuyện'}</Text>
+            <TouchableOpacity onPress={reload}>
+              <Text style={styles.linkText}>Thử lại</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => router.back()}>
+              <Text style={styles.linkText}>Quay lại</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </SafeAreaView>
+    );
+  }
+
+  const photoUrl = getPhotoUrl(match.user);
+
+  const renderMessage = ({ item }: { item: Message }) => {
+    const isOwn = item.sender._id === user?._id;
+
+    return (
+      <View style={[styles.bubbleRow, isOwn && styles.ownBubbleRow]}>
+        <View
+          style={[
+            styles.bubble,
+            isOwn ? styles.ownBubble : styles.otherBubble,
+            item._id === highlightedId && styles.highlightedBubble,
+          ]}
+        >
+          {item.messageType === 'image' && !!item.imageUrl ? (
+            <Image source={{ uri: item.imageUrl }} style={styles.messageImage} />
+          ) : item.messageType === 'gif' && !!item.gifUrl ? (
+            <Image source={{ uri: item.gifUrl }} style={styles.messageImage} />
+          ) : (
+            <Text style={[styles.messageText, isOwn && styles.ownMessageText]}>{item.content}</Text>
+          )}
+          <Text style={[styles.messageTime, isOwn && styles.ownMessageTime]}>
+            {formatTime(item.createdAt)}
+            {isOwn && item.isRead ? ' · Đã xem' : ''}
+          </Text>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Ionicons name="chevron-back" size={28} color="#333" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.headerUser}
+          onPress={() => router.push(`/user/profile/${match.user._id}`)}
+        >
+          {photoUrl ? (
+            <Image source={{ uri: photoUrl }} style={styles.headerAvatar} />
+          ) : (
+            <View style={styles.headerAvatar}>
+              <Ionicons name="person" size={20} color="#ccc" />
+            </View>
+          )}
+          <View>
+            <Text style={styles.headerName}>{match.user.name}</Text>
+            <Text style={styles.headerStatus}>
+              {match.user.isOnline ? 'Đang hoạt động' : 'Không hoạt động'}
+            </Text>
+          </View>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={showOptions}>
+          <Ionicons name="ellipsis-vertical" size={22} color="#333" />
+        </TouchableOpacity>
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <FlatList
+          ref={listRef}
+          data={messages}
+          keyExtractor={item => item._id}
+          renderItem={renderMessage}
+          inverted
+          contentContainerStyle={styles.messages}
+          onEndReached={loadOlder}
+          onEndReachedThreshold={0.5}
+          onScrollToIndexFailed={({ index, averageItemLength }) => {
+            // Rows are measured lazily: jump close to the message, then retry once it has rendered
+            listRef.current?.scrollToOffset({ offset: index * averageItemLength, animated: false });
+            setTimeout(() => {
+              listRef.current?.scrollToIndex({ index, viewPosition: 0.5, animated: false });
+            }, 100);
+          }}
+          ListFooterComponent={isFetchingMore ? <ActivityIndicator color="#e91e63" /> : null}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyText}>
+                Bạn và {match.user.name} đã match. Hãy gửi lời chào đầu tiên!
+              </Text>
+            </View>
+          }
+        />
+
+        <View style={styles.composer}>
+          <TextInput
+            style={styles.input}
+            value={draft}
+            onChangeText={setDraft}
+            placeholder="Nhập tin nhắn..."
+            placeholderTextColor="#999"
+            maxLength={1000}
+            multiline
+          />
+          <TouchableOpacity
+            style={[styles.sendButton, !draft.trim() && styles.sendButtonDisabled]}
+            onPress={handleSend}
+            disabled={isSending || !draft.trim()}
+          >
+            {isSending ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Ionicons name="send" size={18} color="white" />
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+
+      <UnmatchSheet
+        visible={showUnmatch}
+        name={match.user.name}
+        onClose={() => setShowUnmatch(false)}
+        onConfirm={handleUnmatch}
+      />
+
+      <ReportWizard
+        visible={showReport}
+        userId={match.user._id}
+        name={match.user.name}
+        matchId={matchId}
+        onClose={() => setShowReport(false)}
+        onReported={() => setShowReport(false)}
+      />
+    </SafeAreaView>
+  );
+}
+
+export default function ChatScreen() {
+  // messageId is set when opening a message from the matches search
+  const { matchId, messageId } = useLocalSearchParams<{ matchId: string; messageId?: string }>();
+
+  // Remounting per match (and searched message) keeps one conversation's state from leaking into another
+  return <Conversation key={`${matchId}:${messageId ?? ''}`} matchId={matchId} focusMessageId={messageId} />;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  flex: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 16,
+  },
+  linkText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#e91e63',
+    marginTop: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerUser: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  headerAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#f0f0f0',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 10,
+  },
+  headerName: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerStatus: {
+    fontSize: 12,
+    color: '#999',
+  },
+  messages: {
+    flexGrow: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 16,
+  },
+  bubbleRow: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  ownBubbleRow: {
+    justifyContent: 'flex-end',
+  },
+  bubble: {
+    maxWidth: '78%',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 18,
+  },
+  ownBubble: {
+    backgroundColor: '#e91e63',
+    borderBottomRightRadius: 4,
+  },
+  otherBubble: {
+    backgroundColor: 'white',
+    borderBottomLeftRadius: 4,
+  },
+  highlightedBubble: {
+    borderWidth: 2,
+    borderColor: '#FFC107',
+  },
+  messageText: {
+    fontSize: 15,
+    color: '#333',
+  },
+  ownMessageText: {
+    color: 'white',
+  },
+  messageImage: {
+    width: 200,
+    height: 200,
+    borderRadius: 12,
+  },
+  messageTime: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 4,
+    alignSelf: 'flex-end',
+  },
+  ownMessageTime: {
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    // The list is inverted, so flip the placeholder back upright
+    transform: [{ scaleY: -1 }],
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#999',
+    textAlign: 'center',
+  },
+  composer: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: 'white',
+    borderTopWidth: 1,
+    borderTopColor: '#e0e0e0',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    maxHeight: 120,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 20,
+    backgroundColor: '#f1f1f1',
+    fontSize: 15,
+    color: '#333',
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#e91e63',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sendButtonDisabled: {
+    backgroundColor: '#f8bbd0',
+  },
+});
@@ -0,0 +1,295 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  FlatList,
+  TouchableOpacity,
+  Image,
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons, AntDesign } from '@expo/vector-icons';
+import { useAuth } from '../../context/AuthContext';
+import { useSwipeHistory } from '../../hooks/use-swipe-history';
+import { MatchOverlay } from '../../components/match-overlay';
+import { Match, SwipeHistoryEntry, SwipeHistoryType } from '../../services/api';
+
+const tabs: { label: string; value: SwipeHistoryType }[] = [
+  { label: 'Đã thích', value: 'like' },
+  { label: 'Đã bỏ qua', value: 'pass' },
+];
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('vi-VN', { day: '2-digit', month: '2-digit' });
+
+function HistoryList({ type, onMatch }: { type: SwipeHistoryType; onMatch: (match: Match) => void }) {
+  const {
+    entries,
+    isLoading,
+    isRefreshing,
+    isFetchingMore,
+    error,
+    refresh,
+    loadMore,
+    likePassed,
+  } = useSwipeHistory(type);
+  const [likingId, setLikingId] = useState<string | null>(null);
+
+  const handleLike = async (entry: SwipeHistoryEntry) => {
+    setLikingId(entry.user._id);
+    try {
+      const result = await likePassed(entry.user._id);
+      if (result.match && result.matchDetails) {
+        onMatch(result.matchDetails);
+      }
+    } catch (err: any) {
+      Alert.alert('Lỗi', err.message || 'Không thể thích hồ sơ này');
+    } finally {
+      setLikingId(null);
+    }
+  };
+
+  const renderEntry = ({ item }: { item: SwipeHistoryEntry }) => (
+    <TouchableOpacity style={styles.entry} onPress={() => router.push(`/user/profile/${item.user._id}`)}>
+      <View style={styles.avatar}>
+        {item.user.mainPhoto ? (
+          <Image source={{ uri: item.user.mainPhoto }} style={styles.avatarImage} />
+        ) : (
+          <Text style={styles.avatarInitial}>{item.user.name.charAt(0).toUpperCase()}</Text>
+        )}
+      </View>
+
+      <View style={styles.entryInfo}>
+        <View style={styles.entryTitle}>
+          <Text style={styles.entryName}>
+            {item.user.name}, {item.user.age}
+          </Text>
+          {item.action === 'superlike' && <AntDesign name="star" size={14} color="#2196F3" />}
+        </View>
+        <Text style={styles.entryMeta}>
+          {item.returnsAt
+            ? `Bỏ qua ngày ${formatDate(item.swipedAt)} · xuất hiện lại từ ${formatDate(item.returnsAt)}`
+            : `Đã thích ngày ${formatDate(item.swipedAt)}`}
+        </Text>
+      </View>
+
+      {item.action === 'pass' && (
+        <TouchableOpacity
+          style={styles.likeButton}
+          onPress={() => handleLike(item)}
+          disabled={likingId === item.user._id}
+        >
+          {likingId === item.user._id ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <AntDesign name="heart" size={16} color="#fff" />
+          )}
+        </TouchableOpacity>
+      )}
+    </TouchableOpacity>
+  );
+
+  const renderEmpty = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color="#e91e63" />
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.emptyState}>
+        <Ionicons name="time-outline" size={40} color="#ddd" />
+        <Text style={styles.emptyText}>
+          {error || (type === 'like' ? 'Bạn chưa thích ai' : 'Bạn chưa bỏ qua ai')}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <FlatList
+      data={entries}
+      keyExtractor={item => item.user._id}
+      renderItem={renderEntry}
+      contentContainerStyle={styles.list}
+      ListEmptyComponent={renderEmpty}
+      ListFooterComponent={isFetchingMore ? <ActivityIndicator color="#e91e63" /> : null}
+      onEndReached={loadMore}
+      onEndReachedThreshold={0.5}
+      refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={refresh} tintColor="#e91e63" />}
+    />
+  );
+}
+
+export default function SwipeHistoryScreen() {
+  const { user } = useAuth();
+  const [type, setType] = useState<SwipeHistoryType>('like');
+  const [newMatch, setNewMatch] = useState<Match | null>(null);
+
+  const matchedUser = newMatch?.users.find(matchUser => matchUser._id !== user?._id) ?? null;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Ionicons name="chevron-back" size={28} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Lịch sử vuốt</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <View style={styles.tabs}>
+        {tabs.map(tab => (
+          <TouchableOpacity
+            key={tab.value}
+            style={[styles.tab, type === tab.value && styles.activeTab]}
+            onPress={() => setType(tab.value)}
+          >
+            <Text style={[styles.tabText, type === tab.value && styles.activeTabText]}>{tab.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Remounting per tab gives each list its own pagination state */}
+      <HistoryList key={type} type={type} onMatch={setNewMatch} />
+
+      <MatchOverlay
+        visible={!!matchedUser}
+        currentUser={user}
+        matchedUser={matchedUser}
+        onSendMessage={() => {
+          setNewMatch(null);
+          if (newMatch) router.push(`/user/chat/${newMatch._id}`);
+        }}
+        onKeepSwiping={() => setNewMatch(null)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  headerSpacer: {
+    width: 28,
+  },
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: 'white',
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    gap: 10,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#f1f1f1',
+    alignItems: 'center',
+  },
+  activeTab: {
+    backgroundColor: '#e91e63',
+  },
+  tabText: {
+    fontSize: 15,
+    color: '#333',
+    fontWeight: '500',
+  },
+  activeTabText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  list: {
+    flexGrow: 1,
+    paddingVertical: 8,
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  avatar: {
+    width: 52,
+    height: 52,
+    borderRadius: 26,
+    backgroundColor: '#f8bbd0',
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+  avatarImage: {
+    width: '100%',
+    height: '100%',
+  },
+  avatarInitial: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  entryInfo: {
+    flex: 1,
+    marginLeft: 14,
+  },
+  entryTitle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  entryName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  entryMeta: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 4,
+  },
+  likeButton: {
+    width: 38,
+    height: 38,
+    borderRadius: 19,
+    backgroundColor: '#e91e63',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    marginTop: 15,
+    textAlign: 'center',
+  },
+});
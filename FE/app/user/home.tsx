@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -10,72 +10,72 @@ import {
   Dimensions,
   TextInput,
   StatusBar,
-  PanResponder,
-  Animated,
   Platform,
+  Image,
 } from 'react-native';
 import { useAuth } from '../../context/AuthContext';
+import { useDiscover } from '../../context/DiscoverContext';
+import { useBoost } from '../../hooks/use-boost';
+import { MatchOverlay } from '../../components/match-overlay';
+import { SwipeDeck, SwipeDeckHandle } from '../../components/swipe-deck';
+import { getInterestLabel } from '../../constants/interests';
+import { getCityName, getPassportLabel } from '../../constants/cities';
+import { PassportSheet } from '../../components/passport-sheet';
+import { DeckSuggestions } from '../../components/deck-suggestions';
+import {
+  DiscoveryFilters,
+  DiscoveryFilterSheet,
+  getDiscoveryFilters,
+} from '../../components/discovery-filter-sheet';
+import { apiService, BoostReport, DeckSuggestion, Match, SwipeAction, UserProfile } from '../../services/api';
 import { router } from 'expo-router';
 import { Ionicons, MaterialIcons, FontAwesome5, AntDesign } from '@expo/vector-icons';
 
 
 const { width, height } = Dimensions.get('window');
 const CARD_HEIGHT = height * 0.68;
+// Cards only have room for a couple of rows of interest tags
+const MAX_CARD_INTERESTS = 5;
 
-// Mock data with more diverse profiles
-const mockProfiles = [
-  {
-    id: 1,
-    name: 'Anna',
-    age: 25,
-    distance: '2 km',
-    bio: 'Love traveling and coffee ☕ Always up for new adventures!',
-    image: null,
-    verified: true,
-    interests: ['Travel', 'Coffee', 'Photography'],
-  },
-  {
-    id: 2,
-    name: 'Maria',
-    age: 23,
-    distance: '5 km',
-    bio: 'Photographer & Dog lover Weekend hiker and nature enthusiast',
-    image: null,
-    verified: false,
-    interests: ['Photography', 'Dogs', 'Hiking'],
-  },
-  {
-    id: 3,
-    name: 'Sophie',
-    age: 27,
-    distance: '8 km',
-    bio: 'Yoga instructor Mindfulness and healthy living',
-    image: null,
-    verified: true,
-    interests: ['Yoga', 'Meditation', 'Health'],
-  },
-  {
-    id: 4,
-    name: 'Emma',
-    age: 24,
-    distance: '3 km',
-    bio: 'Artist and bookworm Looking for meaningful conversations',
-    image: null,
-    verified: false,
-    interests: ['Art', 'Books', 'Movies'],
-  },
-];
+const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
 
 export default function UserHomeScreen() {
-  const { user, logout } = useAuth();
+  const { user, logout, updateProfile, refreshUser } = useAuth();
   const [searchText, setSearchText] = useState('');
   const [activeTab, setActiveTab] = useState('discover');
-  const [currentProfileIndex, setCurrentProfileIndex] = useState(0);
+  const {
+    profiles,
+    currentIndex,
+    currentProfile,
+    isLoading: isDeckLoading,
+    isFetchingMore,
+    error: deckError,
+    superLikesRemaining,
+    exhaustion,
+    swipe,
+    rewind,
+    reload,
+    retry,
+  } = useDiscover();
   const [likeCount, setLikeCount] = useState(0);
   const [matchCount, setMatchCount] = useState(0);
-  const [pan] = useState(new Animated.ValueXY());
-  const [cardOpacity] = useState(new Animated.Value(1));
-  const [scale] = useState(new Animated.Value(1));
+  const [newMatch, setNewMatch] = useState<Match | null>(null);
+  const [showFilters, setShowFilters] = useState(false);
+  const [showPassport, setShowPassport] = useState(false);
+
+  const matchedUser = newMatch?.users.find(matchUser => matchUser._id !== user?._id) ?? null;
+
+  const handleBoostEnded = useCallback((report: BoostReport | null) => {
+    if (!report) return;
+    Alert.alert(
+      'Boost đã kết thúc',
+      `Hồ sơ của bạn được xem ${report.views} lần và nhận ${report.likes} lượt thích` +
+        (report.extraLikes > 0 ? ` (nhiều hơn bình thường ${report.extraLikes} lượt).` : '.')
+    );
+  }, []);
+  const boost = useBoost(handleBoostEnded);
+  const deckRef = useRef<SwipeDeckHandle>(null);
 
   useEffect(() => {
     if (!user) {
@@ -83,71 +83,33 @@ export default function UserHomeScreen() {
     }
   }, [user]);
 
-  const panResponder = PanResponder.create({
-    onMoveShouldSetPanResponder: (evt, gestureState) => {
-      return Math.abs(gestureState.dx) > 10 || Math.abs(gestureState.dy) > 10;
-    },
-    onPanResponderMove: (evt, gestureState) => {
-      pan.setValue({ x: gestureState.dx, y: gestureState.dy });
-      const opacity = Math.max(0.5, 1 - Math.abs(gestureState.dx) / width);
-      cardOpacity.setValue(opacity);
-    },
-    onPanResponderRelease: (evt, gestureState) => {
-      const swipeThreshold = width * 0.3;
-      
-      if (gestureState.dx > swipeThreshold) {
-        swipeRight();
-      } else if (gestureState.dx < -swipeThreshold) {
-        swipeLeft();
-      } else {
-        Animated.parallel([
-          Animated.spring(pan, { 
-            toValue: { x: 0, y: 0 }, 
-            useNativeDriver: false,
-            friction: 5 
-          }),
-          Animated.timing(cardOpacity, { 
-            toValue: 1, 
-            duration: 200, 
-            useNativeDriver: false 
-          })
-        ]).start();
-      }
-    },
-  });
-
-  const swipeLeft = () => {
-    Animated.parallel([
-      Animated.timing(pan, {
-        toValue: { x: -width * 1.2, y: 0 },
-        duration: 250,
-        useNativeDriver: false,
-      }),
-      Animated.timing(cardOpacity, {
-        toValue: 0,
-        duration: 250,
-        useNativeDriver: false,
-      })
-    ]).start(() => {
-      nextProfile();
-    });
+  // Re-query the deck whenever the discovery filters or the Passport city change, wherever they were edited
+  const filters = getDiscoveryFilters(user);
+  const passportCity = user?.passport?.city ?? null;
+  const filtersKey = JSON.stringify([filters, passportCity]);
+  const lastFiltersKey = useRef(filtersKey);
+
+  useEffect(() => {
+    if (lastFiltersKey.current !== filtersKey) {
+      lastFiltersKey.current = filtersKey;
+      reload();
+    }
+  }, [filtersKey, reload]);
+
+  const openProfile = (profile: UserProfile) => {
+    router.push(`/user/profile/${profile._id}`);
   };
 
-  const swipeRight = () => {
-    Animated.parallel([
-      Animated.timing(pan, {
-        toValue: { x: width * 1.2, y: 0 },
-        duration: 250,
-        useNativeDriver: false,
-      }),
-      Animated.timing(cardOpacity, {
-        toValue: 0,
-        duration: 250,
-        useNativeDriver: false,
-      })
-    ]).start(() => {
-      handleLike();
-    });
+  const showSuperLikeLimit = () => {
+    Alert.alert('Hết Super Like', 'Bạn đã dùng hết Super Like hôm nay. Hãy quay lại vào ngày mai!');
+  };
+
+  const handleSuperLike = () => {
+    if (superLikesRemaining === 0) {
+      showSuperLikeLimit();
+      return;
+    }
+    deckRef.current?.swipe('superlike');
   };
 
   const handleLogout = async () => {
@@ -168,150 +130,270 @@ export default function UserHomeScreen() {
     );
   };
 
-  const handleLike = () => {
-    setLikeCount(prev => prev + 1);
-    if (Math.random() > 0.7) {
-      setMatchCount(prev => prev + 1);
-      Alert.alert('🎉 It\'s a Match!', 'Bạn và ' + mockProfiles[currentProfileIndex].name + ' đã match!');
+  const performSwipe = async (action: SwipeAction) => {
+    try {
+      const result = await swipe(action);
+
+      if (action !== 'pass') {
+        setLikeCount(prev => prev + 1);
+      }
+
+      if (result.match && result.matchDetails) {
+        setMatchCount(prev => prev + 1);
+        setNewMatch(result.matchDetails);
+      }
+    } catch (error: any) {
+      console.error('Swipe error:', error);
+      Alert.alert('Lỗi', error.message || 'Không thể gửi lượt vuốt, vui lòng thử lại');
+    }
+  };
+
+  const handleRewind = async () => {
+    try {
+      const result = await rewind();
+
+      if (result.dissolvedMatchId) {
+        setMatchCount(prev => Math.max(prev - 1, 0));
+      }
+
+      if (!result.user) {
+        Alert.alert('Đã quay lại', 'Hồ sơ này không còn khả dụng nên sẽ không hiện lại.');
+        return;
+      }
+
+      // Bring the card back in from the side it was swiped to
+      deckRef.current?.animateIn(result.user._id, result.action);
+    } catch (error: any) {
+      Alert.alert('Không thể quay lại', error.message || 'Vui lòng thử lại sau');
+    }
+  };
+
+  const handleBoost = () => {
+    if (boost.isActive) {
+      Alert.alert(
+        'Boost đang chạy',
+        `Hồ sơ của bạn đang được ưu tiên hiển thị. Còn ${formatCountdown(boost.remainingSeconds)}.`
+      );
+      return;
     }
-    nextProfile();
+
+    Alert.alert(
+      'Boost hồ sơ',
+      'Hồ sơ của bạn sẽ được ưu tiên hiển thị cho mọi người trong 30 phút. Bắt đầu ngay?',
+      [
+        { text: 'Hủy', style: 'cancel' },
+        {
+          text: 'Boost',
+          onPress: async () => {
+            try {
+              await boost.start();
+            } catch (error: any) {
+              Alert.alert('Lỗi', error.message || 'Không thể bắt đầu Boost');
+            }
+          },
+        },
+      ],
+    );
   };
 
-  const handlePass = () => {
-    swipeLeft();
+  const handleApplyFilters = async (nextFilters: DiscoveryFilters) => {
+    try {
+      await updateProfile(nextFilters);
+      setShowFilters(false);
+    } catch (error: any) {
+      Alert.alert('Lỗi', error.message || 'Không thể lưu bộ lọc');
+    }
   };
 
-  const nextProfile = () => {
-    pan.setValue({ x: 0, y: 0 });
-    cardOpacity.setValue(1);
-    
-    if (currentProfileIndex < mockProfiles.length - 1) {
-      setCurrentProfileIndex(currentProfileIndex + 1);
-    } else {
-      setCurrentProfileIndex(0);
+  // Changing the preferences reloads the deck through filtersKey
+  const handleApplySuggestion = async (suggestion: DeckSuggestion) => {
+    const preferences = suggestion.preference === 'maxDistance'
+      ? { ...filters.preferences, maxDistance: suggestion.value }
+      : { ...filters.preferences, ageRange: suggestion.value };
+
+    try {
+      await updateProfile({ preferences });
+    } catch (error: any) {
+      Alert.alert('Lỗi', error.message || 'Không thể lưu bộ lọc');
     }
   };
 
-  interface InterestsProps {
-    interests: string[];
-  }
+  const handleSelectPassport = async (city: string | null) => {
+    try {
+      if (city) {
+        await apiService.setPassport(city);
+      } else {
+        await apiService.clearPassport();
+      }
+      await refreshUser();
+      setShowPassport(false);
+    } catch (error: any) {
+      Alert.alert('Lỗi', error.message || 'Không thể đổi vị trí Passport');
+    }
+  };
+
+  const handleSendMessage = () => {
+    if (!newMatch) return;
+    setNewMatch(null);
+    router.push(`/user/chat/${newMatch._id}`);
+  };
 
-  const renderInterests = (interests: InterestsProps['interests']) => (
-    <View style={styles.interestsContainer}>
-      {interests.map((interest: string, index: number) => (
-        <View key={index} style={styles.interestTag}>
-          <Text style={styles.interestText}>{interest}</Text>
+  const renderDeckState = () => {
+    if (isDeckLoading || (!currentProfile && isFetchingMore)) {
+      return (
+        <View style={styles.emptyTab}>
+          <ActivityIndicator size="large" color="#e91e63" />
+          <Text style={styles.emptySubText}>Đang tìm người phù hợp...</Text>
         </View>
-      ))}
-    </View>
-  );
+      );
+    }
 
-  const renderProfileCard = () => {
-    if (mockProfiles.length === 0) return null;
-    
-    const profile = mockProfiles[currentProfileIndex];
-    
-    const rotateZ = pan.x.interpolate({
-      inputRange: [-width / 2, 0, width / 2],
-      outputRange: ['-15deg', '0deg', '15deg'],
-      extrapolate: 'clamp',
-    });
+    if (deckError && !currentProfile) {
+      return (
+        <View style={styles.emptyTab}>
+          <View style={styles.emptyIconContainer}>
+            <Ionicons name="cloud-offline" size={60} color="#e91e63" />
+          </View>
+          <Text style={styles.emptyText}>Không thể tải hồ sơ</Text>
+          <Text style={styles.emptySubText}>{deckError}</Text>
+          <TouchableOpacity style={styles.editProfileButton} onPress={retry}>
+            <Text style={styles.editProfileButtonText}>Thử lại</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
 
     return (
-      <View style={styles.cardContainer}>
-        <Animated.View
-          {...panResponder.panHandlers}
-          style={[
-            styles.profileCard,
-            {
-              transform: [
-                { translateX: pan.x },
-                { translateY: pan.y },
-                { rotateZ: rotateZ },
-              ],
-              opacity: cardOpacity,
-            },
-          ]}
-        >
-          {/* Swipe indicators */}
-          <Animated.View style={[
-            styles.swipeIndicator,
-            styles.likeIndicator,
-            {
-              opacity: pan.x.interpolate({
-                inputRange: [0, width * 0.3],
-                outputRange: [0, 1],
-                extrapolate: 'clamp',
-              })
-            }
-          ]}>
-            <AntDesign name="heart" size={50} color="#4CAF50" />
-          </Animated.View>
-          
-          <Animated.View style={[
-            styles.swipeIndicator,
-            styles.passIndicator,
-            {
-              opacity: pan.x.interpolate({
-                inputRange: [-width * 0.3, 0],
-                outputRange: [1, 0],
-                extrapolate: 'clamp',
-              })
-            }
-          ]}>
-            <MaterialIcons name="close" size={50} color="#f44336" />
-          </Animated.View>
-
-          {/* Profile Image */}
-          <View style={styles.imageContainer}>
-            <View style={styles.imagePlaceholder}>
-              <Text style={styles.imagePlaceholderText}>
-                {profile.name.charAt(0)}
-              </Text>
-            </View>
-            
-            {/* Gradient overlay for better text visibility */}
-            <View style={styles.gradientOverlay}>
-              <View style={styles.gradientInner} />
+      <View style={styles.emptyTab}>
+        <View style={styles.emptyIconContainer}>
+          <Ionicons name="search" size={60} color="#e91e63" />
+        </View>
+        <Text style={styles.emptyText}>
+          {passportCity ? `Đã hết người ở ${getCityName(passportCity)}` : 'Đã hết người quanh bạn'}
+        </Text>
+        <Text style={styles.emptySubText}>
+          Hãy quay lại sau hoặc làm mới để xem có ai mới không.
+        </Text>
+        {exhaustion && <DeckSuggestions exhaustion={exhaustion} onApply={handleApplySuggestion} />}
+        <TouchableOpacity style={styles.editProfileButton} onPress={reload}>
+          <Text style={styles.editProfileButtonText}>Làm mới</Text>
+        </TouchableOpacity>
+        {/* The last swipe can still be undone once the deck has run out */}
+        <TouchableOpacity style={styles.deckRewindButton} onPress={handleRewind} activeOpacity={0.7}>
+          <Ionicons name="arrow-undo" size={18} color="#FFC107" />
+          <Text style={styles.deckRewindText}>Quay lại hồ sơ trước</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  // Shared interests are highlighted and shown first
+  const renderInterests = (interests: string[] = []) => {
+    if (interests.length === 0) return null;
+
+    const myInterests = new Set(user?.interests ?? []);
+    const sorted = [...interests].sort(
+      (a, b) => Number(myInterests.has(b)) - Number(myInterests.has(a))
+    );
+
+    return (
+      <View style={styles.interestsContainer}>
+        {sorted.slice(0, MAX_CARD_INTERESTS).map(interest => {
+          const isShared = myInterests.has(interest);
+
+          return (
+            <View key={interest} style={[styles.interestTag, isShared && styles.sharedInterestTag]}>
+              {isShared && <Ionicons name="checkmark" size={12} color="#fff" />}
+              <Text style={styles.interestText}>{getInterestLabel(interest)}</Text>
             </View>
-            
-            {profile.verified && (
-              <View style={styles.verifiedBadge}>
-                <Ionicons name="checkmark-circle" size={32} color="#2196F3" />
-              </View>
-            )}
-            
-            {/* Profile info overlay */}
-            <View style={styles.profileInfoOverlay}>
-              <View style={styles.profileHeader}>
-                <View style={styles.nameSection}>
-                  <Text style={styles.profileName}>
-                    {profile.name}, {profile.age}
+          );
+        })}
+      </View>
+    );
+  };
+
+  const renderCard = (profile: UserProfile) => {
+    const passportLabel = getPassportLabel(profile.passport);
+
+    return (
+      <View style={styles.imageContainer}>
+        {profile.mainPhoto ? (
+          <Image source={{ uri: profile.mainPhoto }} style={styles.profileImage} />
+        ) : (
+          <View style={styles.imagePlaceholder}>
+            <Text style={styles.imagePlaceholderText}>
+              {profile.name.charAt(0)}
+            </Text>
+          </View>
+        )}
+        
+        {/* Gradient overlay for better text visibility */}
+        <View style={styles.gradientOverlay}>
+          <View style={styles.gradientInner} />
+        </View>
+
+        {profile.superLikedMe && (
+          <View style={styles.superLikedBadge}>
+            <AntDesign name="star" size={16} color="#fff" />
+            <Text style={styles.superLikedBadgeText}>Đã Super Like bạn</Text>
+          </View>
+        )}
+        
+        {/* Profile info overlay */}
+        <View style={styles.profileInfoOverlay}>
+          <View style={styles.profileHeader}>
+            <View style={styles.nameSection}>
+              <Text style={styles.profileName}>
+                {profile.name}, {profile.age}
+              </Text>
+              {(!!passportLabel || profile.distance !== null || !!profile.location?.city) && (
+                <View style={styles.distanceTag}>
+                  <Ionicons name={passportLabel ? 'airplane' : 'location-sharp'} size={12} color="#fff" />
+                  <Text style={styles.distance}>
+                    {passportLabel ?? (profile.distance !== null ? `Cách ${profile.distance} km` : profile.location.city)}
                   </Text>
-                  <View style={styles.distanceTag}>
-                    <Ionicons name="location-sharp" size={12} color="#fff" />
-                    <Text style={styles.distance}>{profile.distance}</Text>
-                  </View>
                 </View>
-                <TouchableOpacity style={styles.infoButton}>
-                  <Ionicons name="information-circle-outline" size={28} color="#fff" />
-                </TouchableOpacity>
-              </View>
-              
-              <Text style={styles.profileBio} numberOfLines={2}>
-                {profile.bio}
-              </Text>
-              
-              {renderInterests(profile.interests)}
+              )}
+            </View>
+            {/* Tapping anywhere on the card opens the full profile */}
+            <View style={styles.infoButton}>
+              <Ionicons name="information-circle-outline" size={28} color="#fff" />
             </View>
           </View>
-        </Animated.View>
+          
+          {!!profile.bio && (
+            <Text style={styles.profileBio} numberOfLines={2}>
+              {profile.bio}
+            </Text>
+          )}
+          {renderInterests(profile.interests)}
+        </View>
+      </View>
+    );
+  };
+
+  const renderProfileCard = () => {
+    if (!currentProfile) return renderDeckState();
+
+    return (
+      <View style={styles.cardContainer}>
+        <SwipeDeck
+          ref={deckRef}
+          items={profiles.slice(currentIndex)}
+          renderCard={renderCard}
+          onSwipe={(_, action) => performSwipe(action)}
+          onTap={openProfile}
+          canSuperLike={superLikesRemaining !== 0}
+          onSuperLikeBlocked={showSuperLikeLimit}
+          style={styles.deck}
+          cardStyle={styles.profileCard}
+        />
         
         {/* Action Buttons */}
         <View style={styles.actionButtons}>
           <TouchableOpacity 
             style={[styles.actionButton, styles.rewindButton]} 
-            onPress={() => Alert.alert('Rewind', 'Quay lại profile trước!')}
+            onPress={handleRewind}
             activeOpacity={0.7}
           >
             <Ionicons name="arrow-undo" size={24} color="#FFC107" />
@@ -319,7 +401,7 @@ export default function UserHomeScreen() {
           
           <TouchableOpacity 
             style={[styles.actionButton, styles.passButtonLarge]} 
-            onPress={handlePass}
+            onPress={() => deckRef.current?.swipe('pass')}
             activeOpacity={0.7}
           >
             <MaterialIcons name="close" size={32} color="#f44336" />
@@ -327,26 +409,34 @@ export default function UserHomeScreen() {
           
           <TouchableOpacity 
             style={[styles.actionButton, styles.superLikeButton]} 
-            onPress={() => Alert.alert('Super Like', 'Super Like gửi đi!')}
+            onPress={handleSuperLike}
             activeOpacity={0.7}
           >
             <AntDesign name="star" size={28} color="#2196F3" />
+            {superLikesRemaining !== null && (
+              <View style={styles.superLikeCount}>
+                <Text style={styles.superLikeCountText}>{superLikesRemaining}</Text>
+              </View>
+            )}
           </TouchableOpacity>
           
           <TouchableOpacity 
             style={[styles.actionButton, styles.likeButtonLarge]} 
-            onPress={() => swipeRight()}
+            onPress={() => deckRef.current?.swipe('like')}
             activeOpacity={0.7}
           >
             <AntDesign name="heart" size={32} color="#4CAF50" />
           </TouchableOpacity>
           
           <TouchableOpacity 
-            style={[styles.actionButton, styles.boostButton]} 
-            onPress={() => Alert.alert('Boost', 'Tính năng Boost!')}
+            style={[styles.actionButton, styles.boostButton, boost.isActive && styles.boostButtonActive]} 
+            onPress={handleBoost}
             activeOpacity={0.7}
           >
-            <Ionicons name="flash" size={24} color="#9C27B0" />
+            <Ionicons name="flash" size={24} color={boost.isActive ? '#fff' : '#9C27B0'} />
+            {boost.isActive && (
+              <Text style={styles.boostCountdown}>{formatCountdown(boost.remainingSeconds)}</Text>
+            )}
           </TouchableOpacity>
         </View>
       </View>
@@ -358,6 +448,14 @@ export default function UserHomeScreen() {
       case 'discover':
         return (
           <View style={styles.discoverTab}>
+            {passportCity && (
+              <TouchableOpacity style={styles.passportBanner} onPress={() => setShowPassport(true)}>
+                <Ionicons name="airplane" size={14} color="#fff" />
+                <Text style={styles.passportBannerText}>
+                  Đang khám phá tại {getCityName(passportCity)}
+                </Text>
+              </TouchableOpacity>
+            )}
             {renderProfileCard()}
           </View>
         );
@@ -441,12 +539,26 @@ export default function UserHomeScreen() {
           </View>
         </View>
         
-        <TouchableOpacity 
-          style={styles.headerIconButton}
-          onPress={handleLogout}
-        >
-          <Ionicons name="settings-outline" size={28} color="#666" />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity 
+            style={styles.headerIconButton}
+            onPress={() => setShowPassport(true)}
+          >
+            <Ionicons name="airplane-outline" size={26} color={passportCity ? '#e91e63' : '#666'} />
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={styles.headerIconButton}
+            onPress={() => setShowFilters(true)}
+          >
+            <Ionicons name="options-outline" size={28} color="#666" />
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={styles.headerIconButton}
+            onPress={handleLogout}
+          >
+            <Ionicons name="settings-outline" size={28} color="#666" />
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Content */}
@@ -511,6 +623,28 @@ export default function UserHomeScreen() {
           {activeTab === 'profile' && <View style={styles.activeIndicator} />}
         </TouchableOpacity>
       </View>
+
+      <MatchOverlay
+        visible={!!matchedUser}
+        currentUser={user}
+        matchedUser={matchedUser}
+        onSendMessage={handleSendMessage}
+        onKeepSwiping={() => setNewMatch(null)}
+      />
+
+      <DiscoveryFilterSheet
+        visible={showFilters}
+        filters={filters}
+        onClose={() => setShowFilters(false)}
+        onApply={handleApplyFilters}
+      />
+
+      <PassportSheet
+        visible={showPassport}
+        city={passportCity}
+        onClose={() => setShowPassport(false)}
+        onSelect={handleSelectPassport}
+      />
     </SafeAreaView>
   );
 }
@@ -536,6 +670,9 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#f0f0f0',
   },
+  headerActions: {
+    flexDirection: 'row',
+  },
   headerIconButton: {
     width: 44,
     height: 44,
@@ -579,11 +716,30 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingTop: 10,
   },
+  passportBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#e91e63',
+    marginBottom: 10,
+  },
+  passportBannerText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
   cardContainer: {
     width: width,
     alignItems: 'center',
     paddingHorizontal: 10,
   },
+  deck: {
+    width: width - 20,
+    height: CARD_HEIGHT,
+  },
   profileCard: {
     width: width - 20,
     height: CARD_HEIGHT,
@@ -600,6 +756,11 @@ const styles = StyleSheet.create({
     flex: 1,
     position: 'relative',
   },
+  profileImage: {
+    flex: 1,
+    width: '100%',
+    resizeMode: 'cover',
+  },
   imagePlaceholder: {
     flex: 1,
     backgroundColor: '#e91e63',
@@ -630,19 +791,28 @@ const styles = StyleSheet.create({
       },
     }),
   },
-  verifiedBadge: {
+  superLikedBadge: {
     position: 'absolute',
     top: 20,
-    right: 20,
-    backgroundColor: '#fff',
-    borderRadius: 20,
-    padding: 2,
+    left: 20,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#2196F3',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
     shadowColor: '#000',
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.2,
     shadowRadius: 4,
     elevation: 4,
   },
+  superLikedBadgeText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
   profileInfoOverlay: {
     position: 'absolute',
     bottom: 0,
@@ -708,6 +878,9 @@ const styles = StyleSheet.create({
     gap: 8,
   },
   interestTag: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
     backgroundColor: 'rgba(255, 255, 255, 0.25)',
     paddingHorizontal: 14,
     paddingVertical: 6,
@@ -716,23 +889,15 @@ const styles = StyleSheet.create({
     borderColor: 'rgba(255, 255, 255, 0.4)',
     backdropFilter: 'blur(10px)',
   },
+  sharedInterestTag: {
+    backgroundColor: '#e91e63',
+    borderColor: '#e91e63',
+  },
   interestText: {
     color: '#fff',
     fontSize: 13,
     fontWeight: '600',
   },
-  swipeIndicator: {
-    position: 'absolute',
-    top: '45%',
-    zIndex: 1000,
-    padding: 20,
-  },
-  likeIndicator: {
-    right: 30,
-  },
-  passIndicator: {
-    left: 30,
-  },
   actionButtons: {
     flexDirection: 'row',
     justifyContent: 'center',
@@ -766,6 +931,24 @@ const styles = StyleSheet.create({
     height: 52,
     borderRadius: 26,
   },
+  superLikeCount: {
+    position: 'absolute',
+    top: -4,
+    right: -4,
+    backgroundColor: '#2196F3',
+    borderRadius: 9,
+    minWidth: 18,
+    height: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#fff',
+  },
+  superLikeCountText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: 'bold',
+  },
   likeButtonLarge: {
     width: 60,
     height: 60,
@@ -776,6 +959,16 @@ const styles = StyleSheet.create({
     height: 48,
     borderRadius: 24,
   },
+  boostButtonActive: {
+    backgroundColor: '#9C27B0',
+  },
+  boostCountdown: {
+    position: 'absolute',
+    bottom: -18,
+    fontSize: 11,
+    fontWeight: 'bold',
+    color: '#9C27B0',
+  },
   emptyTab: {
     flex: 1,
     justifyContent: 'center',
@@ -826,6 +1019,19 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  deckRewindButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    gap: 6,
+  },
+  deckRewindText: {
+    color: '#666',
+    fontSize: 15,
+    fontWeight: '600',
+  },
   bottomNav: {
     flexDirection: 'row',
     justifyContent: 'space-around',
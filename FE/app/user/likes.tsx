@@ -0,0 +1,345 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  FlatList,
+  TouchableOpacity,
+  Image,
+  ActivityIndicator,
+  Alert,
+  Dimensions,
+  RefreshControl,
+} from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { Ionicons, MaterialIcons, AntDesign } from '@expo/vector-icons';
+import { useAuth } from '../../context/AuthContext';
+import { useLikesReceived } from '../../hooks/use-likes-received';
+import { MatchOverlay } from '../../components/match-overlay';
+import { Match, ReceivedLike, ReceivedLikePreview, SwipeAction } from '../../services/api';
+
+const { width } = Dimensions.get('window');
+const CARD_WIDTH = (width - 48) / 2;
+
+export default function LikesScreen() {
+  const { user } = useAuth();
+  const {
+    likes,
+    previews,
+    count,
+    isPremium,
+    isLoading,
+    isRefreshing,
+    isFetchingMore,
+    error,
+    reload,
+    refresh,
+    loadMore,
+    respond,
+  } = useLikesReceived();
+  const [newMatch, setNewMatch] = useState<Match | null>(null);
+  const [respondingTo, setRespondingTo] = useState<string | null>(null);
+
+  const matchedUser = newMatch?.users.find(matchUser => matchUser._id !== user?._id) ?? null;
+
+  // Likes keep coming in while other tabs are open
+  useFocusEffect(
+    useCallback(() => {
+      reload();
+    }, [reload])
+  );
+
+  const handleRespond = async (like: ReceivedLike, action: SwipeAction) => {
+    setRespondingTo(like._id);
+    try {
+      const result = await respond(like._id, action);
+      if (result.match && result.matchDetails) {
+        setNewMatch(result.matchDetails);
+      }
+    } catch (err: any) {
+      Alert.alert('Lỗi', err.message || 'Không thể gửi lượt vuốt, vui lòng thử lại');
+    } finally {
+      setRespondingTo(null);
+    }
+  };
+
+  const renderLike = ({ item }: { item: ReceivedLike }) => (
+    <TouchableOpacity
+      style={styles.card}
+      activeOpacity={0.9}
+      onPress={() => router.push(`/user/profile/${item._id}`)}
+    >
+      {item.mainPhoto ? (
+        <Image source={{ uri: item.mainPhoto }} style={styles.cardImage} />
+      ) : (
+        <View style={[styles.cardImage, styles.cardPlaceholder]}>
+          <Text style={styles.cardPlaceholderText}>{item.name.charAt(0).toUpperCase()}</Text>
+        </View>
+      )}
+
+      {item.superLike && (
+        <View style={styles.superLikeBadge}>
+          <AntDesign name="star" size={14} color="#fff" />
+        </View>
+      )}
+
+      <View style={styles.cardFooter}>
+        <Text style={styles.cardName} numberOfLines={1}>
+          {item.name}, {item.age}
+        </Text>
+        <View style={styles.cardActions}>
+          <TouchableOpacity
+            style={styles.passButton}
+            onPress={() => handleRespond(item, 'pass')}
+            disabled={respondingTo === item._id}
+          >
+            <MaterialIcons name="close" size={20} color="#f44336" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.likeButton}
+            onPress={() => handleRespond(item, 'like')}
+            disabled={respondingTo === item._id}
+          >
+            <AntDesign name="heart" size={18} color="#fff" />
+          </TouchableOpacity>
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+
+  // Placeholder tiles instead of blurred photos: the server has no blurred thumbnails to send, and a photo URL
+  // blurred only on the client would still let anyone read it from the response
+  const renderPreview = ({ item }: { item: ReceivedLikePreview }) => (
+    <View style={styles.card}>
+      <View style={[styles.cardImage, styles.cardPlaceholder]}>
+        <Ionicons name="help" size={40} color="#fff" />
+      </View>
+      {item.superLike && (
+        <View style={styles.superLikeBadge}>
+          <AntDesign name="star" size={14} color="#fff" />
+        </View>
+      )}
+    </View>
+  );
+
+  const renderEmpty = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color="#e91e63" />
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.emptyState}>
+        <AntDesign name="heart" size={40} color="#ddd" />
+        <Text style={styles.emptyText}>
+          {error || 'Chưa có ai thích bạn. Hãy hoàn thiện hồ sơ để được chú ý hơn!'}
+        </Text>
+        {!!error && (
+          <TouchableOpacity onPress={reload}>
+            <Text style={styles.retryText}>Thử lại</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const header = (
+    <View>
+      <Text style={styles.countText}>
+        {count} người đã thích bạn
+      </Text>
+      {!isPremium && count > 0 && (
+        <View style={styles.upsell}>
+          <Ionicons name="lock-closed" size={20} color="#e91e63" />
+          <Text style={styles.upsellText}>
+            Nâng cấp Premium để xem ai đã thích bạn và match ngay lập tức.
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Lượt thích</Text>
+      </View>
+
+      {isPremium ? (
+        <FlatList
+          data={likes}
+          keyExtractor={item => item._id}
+          renderItem={renderLike}
+          numColumns={2}
+          columnWrapperStyle={styles.row}
+          contentContainerStyle={styles.list}
+          ListHeaderComponent={header}
+          ListEmptyComponent={renderEmpty}
+          ListFooterComponent={isFetchingMore ? <ActivityIndicator color="#e91e63" /> : null}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={refresh} tintColor="#e91e63" />}
+        />
+      ) : (
+        <FlatList
+          data={previews}
+          keyExtractor={(_, index) => String(index)}
+          renderItem={renderPreview}
+          numColumns={2}
+          columnWrapperStyle={styles.row}
+          contentContainerStyle={styles.list}
+          ListHeaderComponent={header}
+          ListEmptyComponent={renderEmpty}
+          refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={refresh} tintColor="#e91e63" />}
+        />
+      )}
+
+      <MatchOverlay
+        visible={!!matchedUser}
+        currentUser={user}
+        matchedUser={matchedUser}
+        onSendMessage={() => {
+          setNewMatch(null);
+          if (newMatch) router.push(`/user/chat/${newMatch._id}`);
+        }}
+        onKeepSwiping={() => setNewMatch(null)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  list: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  row: {
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  countText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  upsell: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 14,
+    borderRadius: 12,
+    backgroundColor: '#fde4ec',
+    marginBottom: 16,
+  },
+  upsellText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+  },
+  card: {
+    width: CARD_WIDTH,
+    height: CARD_WIDTH * 1.4,
+    borderRadius: 14,
+    overflow: 'hidden',
+    backgroundColor: '#eee',
+  },
+  cardImage: {
+    width: '100%',
+    height: '100%',
+  },
+  cardPlaceholder: {
+    backgroundColor: '#f8bbd0',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cardPlaceholderText: {
+    fontSize: 48,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  superLikeBadge: {
+    position: 'absolute',
+    top: 8,
+    right: 8,
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    backgroundColor: '#2196F3',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cardFooter: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    padding: 10,
+    backgroundColor: 'rgba(0, 0, 0, 0.35)',
+  },
+  cardName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 8,
+  },
+  cardActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  passButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#fff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  likeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#e91e63',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 32,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    marginTop: 15,
+    textAlign: 'center',
+  },
+  retryText: {
+    fontSize: 16,
+    color: '#e91e63',
+    fontWeight: '600',
+    marginTop: 12,
+  },
+});
@@ -1,60 +1,280 @@
-import React from 'react';
+import React, { useCallback, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   SafeAreaView,
-  ScrollView,
+  FlatList,
   TouchableOpacity,
+  TextInput,
   Image,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
 } from 'react-native';
-import { Ionicons, MaterialIcons, FontAwesome5 } from '@expo/vector-icons';
+import { router, useFocusEffect } from 'expo-router';
+import { Ionicons, FontAwesome5 } from '@expo/vector-icons';
+import { useAuth } from '../../context/AuthContext';
+import { useMatches } from '../../hooks/use-matches';
+import { useMatchSearch } from '../../hooks/use-match-search';
+import { useSocketEvent } from '../../hooks/use-socket-event';
+import { NewMatchesCarousel } from '../../components/new-matches-carousel';
+import { MatchSearchResults } from '../../components/match-search-results';
+import { UnmatchSheet } from '../../components/unmatch-sheet';
+import { apiService, LastMessage, MatchSummary, UnmatchReason } from '../../services/api';
+import { UnmatchedEvent } from '../../services/socket';
 
-const mockMatches = [
-  { id: 1, name: 'Anna', lastMessage: 'Hey! How are you?', time: '2 min', avatar: null, online: true },
-  { id: 2, name: 'Sophie', lastMessage: 'Thanks for the like!', time: '1h', avatar: null, online: false },
-  { id: 3, name: 'Emma', lastMessage: 'Great profile! 😊', time: '3h', avatar: null, online: true },
-];
+// "vừa xong", "5 phút", "3 giờ", "2 ngày", then the date itself
+const formatRelativeTime = (date: string) => {
+  const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000);
+  if (minutes < 1) return 'vừa xong';
+  if (minutes < 60) return `${minutes} phút`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} giờ`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days} ngày`;
+  return new Date(date).toLocaleDateString('vi-VN', { day: '2-digit', month: '2-digit' });
+};
+
+const getMessagePreview = (message: LastMessage) => {
+  switch (message.messageType) {
+    case 'image':
+      return 'Đã gửi một ảnh';
+    case 'gif':
+      return 'Đã gửi một GIF';
+    default:
+      return message.content || '';
+  }
+};
+
+const getPhotoUrl = (match: MatchSummary) =>
+  match.user.photos?.find(photo => photo.isMain)?.url ?? match.user.photos?.[0]?.url ?? null;
 
 export default function MatchesScreen() {
-  return (
-    <SafeAreaView style={styles.container}>
-      <View style={styles.header}>
-        <Text style={styles.headerTitle}>Matches</Text>
-        <TouchableOpacity>
-          <Ionicons name="search" size={24} color="#333" />
-        </TouchableOpacity>
-      </View>
+  const { user } = useAuth();
+  const {
+    matches,
+    total,
+    isLoading,
+    isRefreshing,
+    isFetchingMore,
+    error,
+    reload,
+    refresh,
+    loadMore,
+    removeMatch,
+  } = useMatches('conversations');
+  const newMatches = useMatches('new');
+  const reloadNewMatches = newMatches.reload;
+  const [isSearchMode, setIsSearchMode] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const search = useMatchSearch(isSearchMode ? searchQuery : '');
+  const [unmatchTarget, setUnmatchTarget] = useState<MatchSummary | null>(null);
 
-      <ScrollView style={styles.content}>
-        <Text style={styles.sectionTitle}>Tin nhắn gần đây</Text>
-        
-        {mockMatches.map((match) => (
-          <TouchableOpacity key={match.id} style={styles.matchItem}>
-            <View style={styles.avatarContainer}>
-              <View style={styles.avatar}>
-                <Ionicons name="person" size={30} color="#ccc" />
-              </View>
-              {match.online && <View style={styles.onlineIndicator} />}
-            </View>
-            
-            <View style={styles.matchInfo}>
-              <Text style={styles.matchName}>{match.name}</Text>
-              <Text style={styles.lastMessage}>{match.lastMessage}</Text>
+  // New matches, messages and read receipts happen while other screens are open
+  useFocusEffect(
+    useCallback(() => {
+      reload();
+      reloadNewMatches();
+    }, [reload, reloadNewMatches])
+  );
+
+  const handleRefresh = () => {
+    refresh();
+    newMatches.refresh();
+  };
+
+  const openMatch = (match: MatchSummary) => router.push(`/user/chat/${match._id}`);
+
+  const removeFromLists = (matchId: string) => {
+    removeMatch(matchId);
+    newMatches.removeMatch(matchId);
+  };
+
+  // The other person unmatched: their conversation disappears right away
+  useSocketEvent<UnmatchedEvent>('unmatched', ({ matchId }) => removeFromLists(matchId));
+
+  const handleUnmatch = async (reason: UnmatchReason | null) => {
+    if (!unmatchTarget) return;
+    try {
+      await apiService.unmatch(unmatchTarget._id, reason ?? undefined);
+      removeFromLists(unmatchTarget._id);
+      setUnmatchTarget(null);
+    } catch (error: any) {
+      Alert.alert('Lỗi', error.message || 'Không thể hủy ghép đôi');
+    }
+  };
+
+  const closeSearch = () => {
+    setIsSearchMode(false);
+    setSearchQuery('');
+  };
+
+  const renderMatch = ({ item }: { item: MatchSummary }) => {
+    const photoUrl = getPhotoUrl(item);
+    const hasUnread = item.unreadCount > 0;
+    const isOwnMessage = item.lastMessage?.sender === user?._id;
+
+    return (
+      <TouchableOpacity
+        style={styles.matchItem}
+        onPress={() => openMatch(item)}
+        onLongPress={() => setUnmatchTarget(item)}
+      >
+        <View style={styles.avatarContainer}>
+          {photoUrl ? (
+            <Image source={{ uri: photoUrl }} style={styles.avatar} />
+          ) : (
+            <View style={styles.avatar}>
+              <Ionicons name="person" size={30} color="#ccc" />
             </View>
-            
-            <View style={styles.matchMeta}>
-              <Text style={styles.timeText}>{match.time}</Text>
-              <Ionicons name="chevron-forward" size={16} color="#ccc" />
+          )}
+          {item.user.isOnline && <View style={styles.onlineIndicator} />}
+        </View>
+
+        <View style={styles.matchInfo}>
+          <Text style={styles.matchName}>{item.user.name}</Text>
+          <Text style={[styles.lastMessage, hasUnread && styles.unreadMessage]} numberOfLines={1}>
+            {item.lastMessage
+              ? `${isOwnMessage ? 'Bạn: ' : ''}${getMessagePreview(item.lastMessage)}`
+              : 'Hãy gửi lời chào đầu tiên 👋'}
+          </Text>
+        </View>
+
+        <View style={styles.matchMeta}>
+          <Text style={styles.timeText}>
+            {formatRelativeTime(item.lastMessage?.createdAt ?? item.lastActivity)}
+          </Text>
+          {hasUnread ? (
+            <View style={styles.unreadBadge}>
+              <Text style={styles.unreadBadgeText}>{item.unreadCount > 99 ? '99+' : item.unreadCount}</Text>
             </View>
-          </TouchableOpacity>
-        ))}
+          ) : (
+            <Ionicons name="chevron-forward" size={16} color="#ccc" />
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
 
+  const renderEmpty = () => {
+    if (isLoading || newMatches.isLoading) {
+      return (
         <View style={styles.emptyState}>
-          <FontAwesome5 name="heart" size={40} color="#ddd" />
-          <Text style={styles.emptyText}>Bắt đầu swipe để tìm matches!</Text>
+          <ActivityIndicator size="large" color="#e91e63" />
         </View>
-      </ScrollView>
+      );
+    }
+
+    if (!error && newMatches.matches.length > 0) {
+      return (
+        <View style={styles.emptyState}>
+          <Ionicons name="chatbubbles-outline" size={40} color="#ddd" />
+          <Text style={styles.emptyText}>Chưa có cuộc trò chuyện nào. Hãy nhắn tin cho match mới của bạn!</Text>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.emptyState}>
+        <FontAwesome5 name="heart" size={40} color="#ddd" />
+        <Text style={styles.emptyText}>{error || 'Bắt đầu swipe để tìm matches!'}</Text>
+        {!!error && (
+          <TouchableOpacity onPress={reload}>
+            <Text style={styles.retryText}>Thử lại</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {isSearchMode ? (
+        <View style={styles.header}>
+          <View style={styles.searchBox}>
+            <Ionicons name="search" size={18} color="#999" />
+            <TextInput
+              style={styles.searchInput}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              placeholder="Tìm match hoặc tin nhắn"
+              placeholderTextColor="#999"
+              autoFocus
+              autoCorrect={false}
+              returnKeyType="search"
+            />
+            {!!searchQuery && (
+              <TouchableOpacity onPress={() => setSearchQuery('')}>
+                <Ionicons name="close-circle" size={18} color="#999" />
+              </TouchableOpacity>
+            )}
+          </View>
+          <TouchableOpacity onPress={closeSearch}>
+            <Text style={styles.cancelText}>Hủy</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Matches</Text>
+          <TouchableOpacity onPress={() => setIsSearchMode(true)}>
+            <Ionicons name="search" size={24} color="#333" />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {isSearchMode ? (
+        <MatchSearchResults
+          query={searchQuery}
+          people={search.people}
+          messages={search.messages}
+          isSearching={search.isSearching}
+          error={search.error}
+          currentUserId={user?._id}
+          onOpenMatch={matchId => router.push(`/user/chat/${matchId}`)}
+          onOpenMessage={(matchId, messageId) => router.push(`/user/chat/${matchId}?messageId=${messageId}`)}
+        />
+      ) : (
+        <FlatList
+          data={matches}
+          keyExtractor={item => item._id}
+          renderItem={renderMatch}
+          contentContainerStyle={styles.content}
+          ListHeaderComponent={
+            <>
+              {newMatches.matches.length > 0 && (
+                <NewMatchesCarousel
+                  matches={newMatches.matches}
+                  total={newMatches.total}
+                  isFetchingMore={newMatches.isFetchingMore}
+                  onEndReached={newMatches.loadMore}
+                  onPress={openMatch}
+                  onLongPress={setUnmatchTarget}
+                />
+              )}
+              {matches.length > 0 && <Text style={styles.sectionTitle}>Tin nhắn ({total})</Text>}
+            </>
+          }
+          ListEmptyComponent={renderEmpty}
+          ListFooterComponent={isFetchingMore ? <ActivityIndicator color="#e91e63" /> : null}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing || newMatches.isRefreshing}
+              onRefresh={handleRefresh}
+              tintColor="#e91e63"
+            />
+          }
+        />
+      )}
+
+      <UnmatchSheet
+        visible={!!unmatchTarget}
+        name={unmatchTarget?.user.name ?? ''}
+        onClose={() => setUnmatchTarget(null)}
+        onConfirm={handleUnmatch}
+      />
     </SafeAreaView>
   );
 }
@@ -79,9 +299,30 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#333',
   },
-  content: {
+  searchBox: {
     flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    marginRight: 12,
+    borderRadius: 10,
+    backgroundColor: '#f1f1f1',
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    fontSize: 16,
+    color: '#333',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#e91e63',
+  },
+  content: {
+    flexGrow: 1,
     paddingHorizontal: 20,
+    paddingBottom: 20,
   },
   sectionTitle: {
     fontSize: 18,
@@ -139,15 +380,35 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666',
   },
+  unreadMessage: {
+    fontWeight: '600',
+    color: '#333',
+  },
   matchMeta: {
     alignItems: 'flex-end',
+    marginLeft: 10,
   },
   timeText: {
     fontSize: 12,
     color: '#999',
     marginBottom: 4,
   },
+  unreadBadge: {
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 6,
+    backgroundColor: '#e91e63',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  unreadBadgeText: {
+    fontSize: 11,
+    fontWeight: 'bold',
+    color: 'white',
+  },
   emptyState: {
+    flex: 1,
     alignItems: 'center',
     justifyContent: 'center',
     paddingVertical: 40,
@@ -156,5 +417,12 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#999',
     marginTop: 15,
+    textAlign: 'center',
+  },
+  retryText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#e91e63',
+    marginTop: 12,
   },
-});
\ No newline at end of file
+});
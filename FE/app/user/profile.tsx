@@ -7,14 +7,68 @@ import {
   ScrollView,
   TouchableOpacity,
   Switch,
+  Alert,
 } from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
 import { useAuth } from '../../context/AuthContext';
+import { apiService } from '../../services/api';
+import {
+  DiscoveryFilters,
+  DiscoveryFilterSheet,
+  getDiscoveryFilters,
+} from '../../components/discovery-filter-sheet';
+import { InterestEditorSheet } from '../../components/interest-editor-sheet';
+import { MAX_INTERESTS } from '../../constants/interests';
 import { Ionicons, MaterialIcons, FontAwesome5, AntDesign } from '@expo/vector-icons';
 
 export default function ProfileScreen() {
-  const { user, logout } = useAuth();
+  const { user, logout, updateProfile } = useAuth();
   const [pushNotifications, setPushNotifications] = React.useState(true);
   const [showOnline, setShowOnline] = React.useState(false);
+  const [showFilters, setShowFilters] = React.useState(false);
+  const [showInterests, setShowInterests] = React.useState(false);
+  const [likesReceived, setLikesReceived] = React.useState<number | null>(null);
+  const [isSavingIncognito, setIsSavingIncognito] = React.useState(false);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      apiService.getLikesReceived(1, 1)
+        .then(result => setLikesReceived(result.count))
+        .catch(error => console.error('Error fetching likes received:', error));
+    }, [])
+  );
+
+  const filters = getDiscoveryFilters(user);
+  const interestedInLabel = { male: 'Nam', female: 'Nữ', both: 'Tất cả' }[filters.interestedIn];
+
+  const handleApplyFilters = async (nextFilters: DiscoveryFilters) => {
+    try {
+      await updateProfile(nextFilters);
+      setShowFilters(false);
+    } catch (error: any) {
+      Alert.alert('Lỗi', error.message || 'Không thể lưu bộ lọc');
+    }
+  };
+
+  const handleSaveInterests = async (interests: string[]) => {
+    try {
+      await updateProfile({ interests });
+      setShowInterests(false);
+    } catch (error: any) {
+      Alert.alert('Lỗi', error.message || 'Không thể lưu sở thích');
+    }
+  };
+
+  const handleToggleIncognito = async (isIncognito: boolean) => {
+    setIsSavingIncognito(true);
+    try {
+      await updateProfile({ isIncognito });
+    } catch (error: any) {
+      Alert.alert('Lỗi', error.message || 'Không thể đổi chế độ ẩn danh');
+    } finally {
+      setIsSavingIncognito(false);
+    }
+  };
 
   return (
     <SafeAreaView style={styles.container}>
@@ -35,11 +89,11 @@ export default function ProfileScreen() {
 
         {/* Profile Stats */}
         <View style={styles.statsContainer}>
-          <View style={styles.statItem}>
+          <TouchableOpacity style={styles.statItem} onPress={() => router.push('/user/likes')}>
             <AntDesign name="heart" size={24} color="#FF4458" />
-            <Text style={styles.statNumber}>42</Text>
+            <Text style={styles.statNumber}>{likesReceived ?? '-'}</Text>
             <Text style={styles.statLabel}>Likes nhận</Text>
-          </View>
+          </TouchableOpacity>
           <View style={styles.statItem}>
             <FontAwesome5 name="fire" size={24} color="#FF6B6B" />
             <Text style={styles.statNumber}>8</Text>
@@ -64,6 +118,19 @@ export default function ProfileScreen() {
             <Ionicons name="chevron-forward" size={20} color="#ccc" />
           </TouchableOpacity>
 
+          <TouchableOpacity style={styles.settingItem} onPress={() => setShowInterests(true)}>
+            <View style={styles.settingLeft}>
+              <Ionicons name="pricetags" size={24} color="#666" />
+              <Text style={styles.settingText}>Sở thích</Text>
+            </View>
+            <View style={styles.settingRight}>
+              <Text style={styles.settingValue}>
+                {user?.interests?.length ?? 0}/{MAX_INTERESTS}
+              </Text>
+              <Ionicons name="chevron-forward" size={20} color="#ccc" />
+            </View>
+          </TouchableOpacity>
+
           <TouchableOpacity style={styles.settingItem}>
             <View style={styles.settingLeft}>
               <Ionicons name="images" size={24} color="#666" />
@@ -97,33 +164,79 @@ export default function ProfileScreen() {
               thumbColor={showOnline ? 'white' : '#f4f3f4'}
             />
           </View>
+
+          <View style={styles.settingItem}>
+            <View style={styles.settingLeft}>
+              <Ionicons name="eye-off" size={24} color="#666" />
+              <View style={styles.settingTextGroup}>
+                <Text style={styles.settingText}>Chế độ ẩn danh</Text>
+                <Text style={styles.settingHint}>Chỉ người bạn đã thích mới thấy bạn</Text>
+              </View>
+            </View>
+            <Switch
+              value={user?.isIncognito ?? false}
+              onValueChange={handleToggleIncognito}
+              disabled={isSavingIncognito}
+              trackColor={{ false: '#ddd', true: '#FF4458' }}
+              thumbColor={user?.isIncognito ? 'white' : '#f4f3f4'}
+            />
+          </View>
         </View>
 
         {/* Preferences Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Sở thích</Text>
           
-          <TouchableOpacity style={styles.settingItem}>
+          <TouchableOpacity style={styles.settingItem} onPress={() => setShowFilters(true)}>
             <View style={styles.settingLeft}>
               <Ionicons name="location" size={24} color="#666" />
               <Text style={styles.settingText}>Khoảng cách tìm kiếm</Text>
             </View>
             <View style={styles.settingRight}>
-              <Text style={styles.settingValue}>50 km</Text>
+              <Text style={styles.settingValue}>{filters.preferences.maxDistance} km</Text>
               <Ionicons name="chevron-forward" size={20} color="#ccc" />
             </View>
           </TouchableOpacity>
 
-          <TouchableOpacity style={styles.settingItem}>
+          <TouchableOpacity style={styles.settingItem} onPress={() => setShowFilters(true)}>
             <View style={styles.settingLeft}>
               <Ionicons name="calendar" size={24} color="#666" />
               <Text style={styles.settingText}>Độ tuổi</Text>
             </View>
             <View style={styles.settingRight}>
-              <Text style={styles.settingValue}>18-35</Text>
+              <Text style={styles.settingValue}>
+                {filters.preferences.ageRange.min}-{filters.preferences.ageRange.max}
+              </Text>
+              <Ionicons name="chevron-forward" size={20} color="#ccc" />
+            </View>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.settingItem} onPress={() => setShowFilters(true)}>
+            <View style={styles.settingLeft}>
+              <Ionicons name="people" size={24} color="#666" />
+              <Text style={styles.settingText}>Hiển thị cho tôi</Text>
+            </View>
+            <View style={styles.settingRight}>
+              <Text style={styles.settingValue}>{interestedInLabel}</Text>
               <Ionicons name="chevron-forward" size={20} color="#ccc" />
             </View>
           </TouchableOpacity>
+
+          <TouchableOpacity style={styles.settingItem} onPress={() => router.push('/user/history')}>
+            <View style={styles.settingLeft}>
+              <Ionicons name="time" size={24} color="#666" />
+              <Text style={styles.settingText}>Lịch sử vuốt</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color="#ccc" />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.settingItem} onPress={() => router.push('/user/blocked')}>
+            <View style={styles.settingLeft}>
+              <Ionicons name="ban" size={24} color="#666" />
+              <Text style={styles.settingText}>Người đã chặn</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color="#ccc" />
+          </TouchableOpacity>
         </View>
 
         {/* Support Section */}
@@ -163,6 +276,20 @@ export default function ProfileScreen() {
 
         <View style={styles.bottomPadding} />
       </ScrollView>
+
+      <DiscoveryFilterSheet
+        visible={showFilters}
+        filters={filters}
+        onClose={() => setShowFilters(false)}
+        onApply={handleApplyFilters}
+      />
+
+      <InterestEditorSheet
+        visible={showInterests}
+        interests={user?.interests ?? []}
+        onClose={() => setShowInterests(false)}
+        onSave={handleSaveInterests}
+      />
     </SafeAreaView>
   );
 }
@@ -277,6 +404,14 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#333',
   },
+  settingTextGroup: {
+    flexShrink: 1,
+  },
+  settingHint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
   settingRight: {
     flexDirection: 'row',
     alignItems: 'center',
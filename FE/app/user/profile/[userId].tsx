@@ -0,0 +1,426 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Dimensions,
+} from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Ionicons, MaterialIcons, AntDesign } from '@expo/vector-icons';
+import { useAuth } from '../../../context/AuthContext';
+import { useDiscover } from '../../../context/DiscoverContext';
+import { PhotoCarousel } from '../../../components/photo-carousel';
+import { MatchOverlay } from '../../../components/match-overlay';
+import { ReportWizard } from '../../../components/report-wizard';
+import { getInterestLabel } from '../../../constants/interests';
+import { getPassportLabel } from '../../../constants/cities';
+import { apiService, Match, SwipeAction, UserProfile } from '../../../services/api';
+
+const { width, height } = Dimensions.get('window');
+
+export default function ProfileDetailScreen() {
+  const { userId } = useLocalSearchParams<{ userId: string }>();
+  const { user } = useAuth();
+  const { profiles, currentProfile, swipe } = useDiscover();
+
+  // Show the card's data right away while the full profile loads
+  const [profile, setProfile] = useState<UserProfile | null>(
+    () => profiles.find(deckProfile => deckProfile._id === userId) ?? null
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSwiping, setIsSwiping] = useState(false);
+  const [newMatch, setNewMatch] = useState<Match | null>(null);
+  const [showReport, setShowReport] = useState(false);
+
+  const matchedUser = newMatch?.users.find(matchUser => matchUser._id !== user?._id) ?? null;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiService.getUserProfile(userId)
+      .then(fullProfile => {
+        if (!cancelled) setProfile(fullProfile);
+      })
+      .catch((err: any) => {
+        if (!cancelled) setError(err.message || 'Không thể tải hồ sơ');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Actions are only offered for the card on top of the deck, so they feed straight back into it
+  const canSwipe = currentProfile?._id === userId;
+
+  const handleSwipe = async (action: SwipeAction) => {
+    setIsSwiping(true);
+    try {
+      const result = await swipe(action);
+
+      if (result.match && result.matchDetails) {
+        setNewMatch(result.matchDetails);
+      } else {
+        router.back();
+      }
+    } catch (err: any) {
+      console.error('Swipe error:', err);
+      Alert.alert('Lỗi', err.message || 'Không thể gửi lượt vuốt, vui lòng thử lại');
+    } finally {
+      setIsSwiping(false);
+    }
+  };
+
+  // A reported or blocked card is passed so it doesn't stay on top of the deck
+  const passCard = async () => {
+    if (!canSwipe) return;
+    try {
+      await swipe('pass');
+    } catch (err: any) {
+      console.error('Pass card error:', err);
+    }
+  };
+
+  const handleReported = async () => {
+    setShowReport(false);
+    await passCard();
+    router.back();
+  };
+
+  const handleBlock = (blocked: UserProfile) => {
+    Alert.alert(
+      `Chặn ${blocked.name}?`,
+      'Hai bạn sẽ không thể nhìn thấy hay nhắn tin cho nhau. Bạn có thể bỏ chặn trong phần Cài đặt.',
+      [
+        { text: 'Hủy', style: 'cancel' },
+        {
+          text: 'Chặn',
+          style: 'destructive',
+          onPress: async () => {
+            // Pass first: once blocked, the profile can no longer be swiped on
+            await passCard();
+            try {
+              await apiService.blockUser(blocked._id);
+              router.back();
+            } catch (err: any) {
+              Alert.alert('Lỗi', err.message || 'Không thể chặn người này');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (!profile) {
+    return (
+      <SafeAreaView style={styles.centered}>
+        {isLoading ? (
+          <ActivityIndicator size="large" color="#e91e63" />
+        ) : (
+          <>
+            <Text style={styles.errorText}>{error || 'Không tìm thấy hồ sơ'}</Text>
+            <TouchableOpacity style={styles.backLink} onPress={() => router.back()}>
+              <Text style={styles.backLinkText}>Quay lại</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </SafeAreaView>
+    );
+  }
+
+  const photos = [...profile.photos].sort((a, b) => Number(b.isMain) - Number(a.isMain));
+  const sharedInterests = new Set(profile.sharedInterests ?? []);
+  const passportLabel = getPassportLabel(profile.passport);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={canSwipe && styles.scrollWithActions}>
+        <PhotoCarousel
+          photos={photos}
+          width={width}
+          height={height * 0.6}
+          placeholder={profile.name.charAt(0).toUpperCase()}
+        />
+
+        <View style={styles.info}>
+          <Text style={styles.name}>
+            {profile.name}, {profile.age}
+          </Text>
+
+          {/* Someone browsing via Passport only shows that city, never where they really are */}
+          {passportLabel ? (
+            <View style={styles.locationRow}>
+              <Ionicons name="airplane" size={16} color="#666" />
+              <Text style={styles.locationText}>{passportLabel}</Text>
+            </View>
+          ) : (!!profile.location?.city || profile.distance !== null) && (
+            <View style={styles.locationRow}>
+              <Ionicons name="location-sharp" size={16} color="#666" />
+              <Text style={styles.locationText}>
+                {[profile.location?.city, profile.distance !== null && `cách ${profile.distance} km`]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </Text>
+            </View>
+          )}
+
+          {!!profile.bio && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Giới thiệu</Text>
+              <Text style={styles.bio}>{profile.bio}</Text>
+            </View>
+          )}
+
+          {profile.interests.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Sở thích</Text>
+              {sharedInterests.size > 0 && (
+                <Text style={styles.sharedHint}>
+                  {sharedInterests.size} sở thích chung với bạn
+                </Text>
+              )}
+              <View style={styles.interests}>
+                {profile.interests.map(interest => {
+                  const isShared = sharedInterests.has(interest);
+
+                  return (
+                    <View key={interest} style={[styles.interestTag, isShared && styles.sharedInterestTag]}>
+                      {isShared && <Ionicons name="checkmark" size={14} color="#fff" />}
+                      <Text style={[styles.interestText, isShared && styles.sharedInterestText]}>
+                        {getInterestLabel(interest)}
+                      </Text>
+                    </View>
+                  );
+                })}
+              </View>
+            </View>
+          )}
+        </View>
+      </ScrollView>
+
+      <TouchableOpacity style={styles.closeButton} onPress={() => router.back()}>
+        <Ionicons name="chevron-down" size={28} color="#fff" />
+      </TouchableOpacity>
+
+      {profile._id !== user?._id && (
+        <TouchableOpacity
+          style={styles.optionsButton}
+          onPress={() =>
+            Alert.alert(profile.name, undefined, [
+              { text: 'Báo cáo', onPress: () => setShowReport(true) },
+              { text: 'Chặn', style: 'destructive', onPress: () => handleBlock(profile) },
+              { text: 'Đóng', style: 'cancel' },
+            ])
+          }
+        >
+          <Ionicons name="ellipsis-horizontal" size={22} color="#fff" />
+        </TouchableOpacity>
+      )}
+
+      {canSwipe && (
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={styles.passButton}
+            onPress={() => handleSwipe('pass')}
+            disabled={isSwiping}
+            activeOpacity={0.8}
+          >
+            <MaterialIcons name="close" size={30} color="#FF4458" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.likeButton}
+            onPress={() => handleSwipe('like')}
+            disabled={isSwiping}
+            activeOpacity={0.8}
+          >
+            <AntDesign name="heart" size={28} color="#fff" />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <ReportWizard
+        visible={showReport}
+        userId={profile._id}
+        name={profile.name}
+        onClose={() => setShowReport(false)}
+        onReported={handleReported}
+      />
+
+      <MatchOverlay
+        visible={!!matchedUser}
+        currentUser={user}
+        matchedUser={matchedUser}
+        onSendMessage={() => {
+          setNewMatch(null);
+          if (newMatch) router.replace(`/user/chat/${newMatch._id}`);
+        }}
+        onKeepSwiping={() => {
+          setNewMatch(null);
+          router.back();
+        }}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginHorizontal: 32,
+  },
+  backLink: {
+    marginTop: 16,
+  },
+  backLinkText: {
+    fontSize: 16,
+    color: '#e91e63',
+    fontWeight: '600',
+  },
+  scrollWithActions: {
+    paddingBottom: 120,
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 56,
+    right: 16,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.35)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  optionsButton: {
+    position: 'absolute',
+    top: 56,
+    left: 16,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.35)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  info: {
+    padding: 20,
+  },
+  name: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  locationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  locationText: {
+    fontSize: 15,
+    color: '#666',
+    marginLeft: 4,
+  },
+  section: {
+    marginTop: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  bio: {
+    fontSize: 16,
+    color: '#444',
+    lineHeight: 22,
+  },
+  sharedHint: {
+    fontSize: 14,
+    color: '#e91e63',
+    marginBottom: 10,
+  },
+  interests: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  interestTag: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#f9f9f9',
+  },
+  sharedInterestTag: {
+    backgroundColor: '#e91e63',
+    borderColor: '#e91e63',
+  },
+  interestText: {
+    fontSize: 14,
+    color: '#333',
+    fontWeight: '500',
+  },
+  sharedInterestText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  actions: {
+    position: 'absolute',
+    bottom: 30,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 40,
+  },
+  passButton: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: '#fff',
+    justifyContent: 'center',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  likeButton: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: '#e91e63',
+    justifyContent: 'center',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+});
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { DeckExhaustion, DeckSuggestion } from '../services/api';
+
+type DeckSuggestionsProps = {
+  exhaustion: DeckExhaustion;
+  // Saves the relaxed preference; the deck reloads once the preferences change
+  onApply: (suggestion: DeckSuggestion) => Promise<void>;
+};
+
+const getSuggestionLabel = (suggestion: DeckSuggestion) =>
+  suggestion.preference === 'maxDistance'
+    ? `Tăng lên ${suggestion.value} km để xem thêm ~${suggestion.count} người`
+    : `Mở rộng độ tuổi ${suggestion.value.min}-${suggestion.value.max} để xem thêm ~${suggestion.count} người`;
+
+export function DeckSuggestions({ exhaustion, onApply }: DeckSuggestionsProps) {
+  const [applying, setApplying] = useState<DeckSuggestion['preference'] | null>(null);
+
+  const handleApply = async (suggestion: DeckSuggestion) => {
+    setApplying(suggestion.preference);
+    try {
+      await onApply(suggestion);
+    } finally {
+      setApplying(null);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {exhaustion.reasons.includes('everyoneSwiped') && (
+        <Text style={styles.reasonText}>
+          Bạn đã xem hết {exhaustion.swipedCount} người phù hợp với bộ lọc hiện tại.
+        </Text>
+      )}
+
+      {exhaustion.suggestions.map(suggestion => (
+        <TouchableOpacity
+          key={suggestion.preference}
+          style={styles.suggestion}
+          onPress={() => handleApply(suggestion)}
+          disabled={applying !== null}
+        >
+          <Ionicons
+            name={suggestion.preference === 'maxDistance' ? 'location' : 'calendar'}
+            size={20}
+            color="#e91e63"
+          />
+          <Text style={styles.suggestionText}>{getSuggestionLabel(suggestion)}</Text>
+          {applying === suggestion.preference ? (
+            <ActivityIndicator size="small" color="#e91e63" />
+          ) : (
+            <Ionicons name="chevron-forward" size={18} color="#e91e63" />
+          )}
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignSelf: 'stretch',
+    paddingHorizontal: 30,
+    marginTop: 16,
+    gap: 10,
+  },
+  reasonText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
+  suggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#f8bbd0',
+    backgroundColor: '#fdf0f5',
+  },
+  suggestionText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+});
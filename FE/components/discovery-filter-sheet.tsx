@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Platform,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
+import { RangeSlider } from './range-slider';
+import { User } from '../services/api';
+
+export type DiscoveryFilters = Pick<User, 'preferences' | 'interestedIn'>;
+
+type DiscoveryFilterSheetProps = {
+  visible: boolean;
+  filters: DiscoveryFilters;
+  onClose: () => void;
+  onApply: (filters: DiscoveryFilters) => Promise<void>;
+};
+
+const MIN_AGE = 18;
+const MAX_AGE = 100;
+const MIN_DISTANCE = 1;
+const MAX_DISTANCE = 500;
+
+// Falls back to the backend defaults for users without saved preferences
+export const getDiscoveryFilters = (user: User | null): DiscoveryFilters => ({
+  interestedIn: user?.interestedIn ?? 'both',
+  preferences: {
+    ageRange: {
+      min: user?.preferences?.ageRange?.min ?? 18,
+      max: user?.preferences?.ageRange?.max ?? 50,
+    },
+    maxDistance: user?.preferences?.maxDistance ?? 50,
+  },
+});
+
+const interestedOptions: { label: string; value: User['interestedIn'] }[] = [
+  { label: 'Nam', value: 'male' },
+  { label: 'Nữ', value: 'female' },
+  { label: 'Tất cả', value: 'both' },
+];
+
+export function DiscoveryFilterSheet({ visible, filters, onClose, onApply }: DiscoveryFilterSheetProps) {
+  const [ageRange, setAgeRange] = useState([filters.preferences.ageRange.min, filters.preferences.ageRange.max]);
+  const [maxDistance, setMaxDistance] = useState(filters.preferences.maxDistance);
+  const [interestedIn, setInterestedIn] = useState(filters.interestedIn);
+  const [isSaving, setIsSaving] = useState(false);
+  const [wasVisible, setWasVisible] = useState(visible);
+
+  // Start from the saved filters every time the sheet opens
+  if (visible !== wasVisible) {
+    setWasVisible(visible);
+    if (visible) {
+      setAgeRange([filters.preferences.ageRange.min, filters.preferences.ageRange.max]);
+      setMaxDistance(filters.preferences.maxDistance);
+      setInterestedIn(filters.interestedIn);
+    }
+  }
+
+  const handleApply = async () => {
+    setIsSaving(true);
+    try {
+      await onApply({
+        interestedIn,
+        preferences: {
+          ageRange: { min: ageRange[0], max: ageRange[1] },
+          maxDistance,
+        },
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      {/* A modal is rendered outside the app's root view, so the slider gestures need their own */}
+      <GestureHandlerRootView style={styles.overlay}>
+        <TouchableOpacity style={styles.overlayTouch} onPress={onClose} activeOpacity={1} />
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <TouchableOpacity onPress={onClose} disabled={isSaving}>
+              <Text style={styles.cancelText}>Hủy</Text>
+            </TouchableOpacity>
+            <Text style={styles.title}>Bộ lọc khám phá</Text>
+            <TouchableOpacity onPress={handleApply} disabled={isSaving}>
+              {isSaving ? (
+                <ActivityIndicator color="#e91e63" />
+              ) : (
+                <Text style={styles.applyText}>Áp dụng</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Khoảng cách tối đa</Text>
+              <Text style={styles.sectionValue}>{maxDistance} km</Text>
+            </View>
+            <RangeSlider
+              min={MIN_DISTANCE}
+              max={MAX_DISTANCE}
+              values={[maxDistance]}
+              onValuesChange={([distance]) => setMaxDistance(distance)}
+            />
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Độ tuổi</Text>
+              <Text style={styles.sectionValue}>{ageRange[0]} - {ageRange[1]}</Text>
+            </View>
+            <RangeSlider
+              min={MIN_AGE}
+              max={MAX_AGE}
+              values={ageRange}
+              onValuesChange={setAgeRange}
+            />
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Hiển thị cho tôi</Text>
+            <View style={styles.options}>
+              {interestedOptions.map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.option, interestedIn === option.value && styles.selectedOption]}
+                  onPress={() => setInterestedIn(option.value)}
+                >
+                  <Text style={[styles.optionText, interestedIn === option.value && styles.selectedOptionText]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        </View>
+      </GestureHandlerRootView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  overlayTouch: {
+    flex: 1,
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingBottom: Platform.OS === 'ios' ? 34 : 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  applyText: {
+    fontSize: 16,
+    color: '#e91e63',
+    fontWeight: '600',
+  },
+  section: {
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  sectionValue: {
+    fontSize: 16,
+    color: '#e91e63',
+    fontWeight: '600',
+  },
+  options: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 12,
+  },
+  option: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    backgroundColor: '#f9f9f9',
+    alignItems: 'center',
+  },
+  selectedOption: {
+    backgroundColor: '#e91e63',
+  },
+  optionText: {
+    fontSize: 15,
+    color: '#333',
+    fontWeight: '500',
+  },
+  selectedOptionText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
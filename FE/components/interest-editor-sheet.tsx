@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { InterestPicker } from './interest-picker';
+
+type InterestEditorSheetProps = {
+  visible: boolean;
+  interests: string[];
+  onClose: () => void;
+  onSave: (interests: string[]) => Promise<void>;
+};
+
+export function InterestEditorSheet({ visible, interests, onClose, onSave }: InterestEditorSheetProps) {
+  const [selected, setSelected] = useState(interests);
+  const [isSaving, setIsSaving] = useState(false);
+  const [wasVisible, setWasVisible] = useState(visible);
+
+  // Start from the saved interests every time the sheet opens
+  if (visible !== wasVisible) {
+    setWasVisible(visible);
+    if (visible) {
+      setSelected(interests);
+    }
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(selected);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <TouchableOpacity style={styles.overlayTouch} onPress={onClose} activeOpacity={1} />
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <TouchableOpacity onPress={onClose} disabled={isSaving}>
+              <Text style={styles.cancelText}>Hủy</Text>
+            </TouchableOpacity>
+            <Text style={styles.title}>Sở thích</Text>
+            <TouchableOpacity onPress={handleSave} disabled={isSaving}>
+              {isSaving ? (
+                <ActivityIndicator color="#e91e63" />
+              ) : (
+                <Text style={styles.saveText}>Lưu</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            <InterestPicker selected={selected} onChange={setSelected} disabled={isSaving} />
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  overlayTouch: {
+    flex: 1,
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '80%',
+    paddingBottom: Platform.OS === 'ios' ? 34 : 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  saveText: {
+    fontSize: 16,
+    color: '#e91e63',
+    fontWeight: '600',
+  },
+  content: {
+    padding: 20,
+  },
+});
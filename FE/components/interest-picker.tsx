@@ -0,0 +1,93 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { INTERESTS, MAX_INTERESTS } from '../constants/interests';
+
+type InterestPickerProps = {
+  selected: string[];
+  onChange: (interests: string[]) => void;
+  disabled?: boolean;
+};
+
+export function InterestPicker({ selected, onChange, disabled = false }: InterestPickerProps) {
+  const isFull = selected.length >= MAX_INTERESTS;
+
+  const toggle = (key: string) => {
+    if (selected.includes(key)) {
+      onChange(selected.filter(interest => interest !== key));
+    } else if (!isFull) {
+      onChange([...selected, key]);
+    }
+  };
+
+  return (
+    <View>
+      <Text style={styles.counter}>
+        Đã chọn {selected.length}/{MAX_INTERESTS}
+      </Text>
+      <View style={styles.chips}>
+        {INTERESTS.map(interest => {
+          const isSelected = selected.includes(interest.key);
+
+          return (
+            <TouchableOpacity
+              key={interest.key}
+              style={[
+                styles.chip,
+                isSelected && styles.selectedChip,
+                isFull && !isSelected && styles.disabledChip,
+              ]}
+              onPress={() => toggle(interest.key)}
+              disabled={disabled || (isFull && !isSelected)}
+            >
+              <Ionicons name={interest.icon} size={14} color={isSelected ? '#fff' : '#666'} />
+              <Text style={[styles.chipText, isSelected && styles.selectedChipText]}>
+                {interest.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  counter: {
+    fontSize: 13,
+    color: '#999',
+    marginBottom: 10,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#f9f9f9',
+  },
+  selectedChip: {
+    backgroundColor: '#e91e63',
+    borderColor: '#e91e63',
+  },
+  disabledChip: {
+    opacity: 0.4,
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,150 @@
+import React from 'react';
+import { Image, Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { UserSummary } from '../services/api';
+
+type MatchOverlayProps = {
+  visible: boolean;
+  currentUser: UserSummary | null;
+  matchedUser: UserSummary | null;
+  onSendMessage: () => void;
+  onKeepSwiping: () => void;
+};
+
+const getPhotoUrl = (user: UserSummary | null) =>
+  user?.photos?.find(photo => photo.isMain)?.url ?? user?.photos?.[0]?.url ?? null;
+
+function MatchAvatar({ user }: { user: UserSummary | null }) {
+  const photoUrl = getPhotoUrl(user);
+
+  return (
+    <View style={styles.avatar}>
+      {photoUrl ? (
+        <Image source={{ uri: photoUrl }} style={styles.avatarImage} />
+      ) : (
+        <Text style={styles.avatarInitial}>{user?.name?.charAt(0)?.toUpperCase() || '?'}</Text>
+      )}
+    </View>
+  );
+}
+
+export function MatchOverlay({
+  visible,
+  currentUser,
+  matchedUser,
+  onSendMessage,
+  onKeepSwiping,
+}: MatchOverlayProps) {
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onKeepSwiping}>
+      <View style={styles.overlay}>
+        <Text style={styles.title}>It&apos;s a Match!</Text>
+        <Text style={styles.subtitle}>
+          Bạn và {matchedUser?.name || 'người ấy'} đã thích nhau
+        </Text>
+
+        <View style={styles.avatars}>
+          <View style={styles.leftAvatar}>
+            <MatchAvatar user={currentUser} />
+          </View>
+          <View style={styles.rightAvatar}>
+            <MatchAvatar user={matchedUser} />
+          </View>
+        </View>
+
+        <TouchableOpacity style={styles.primaryButton} onPress={onSendMessage} activeOpacity={0.8}>
+          <Ionicons name="chatbubble" size={20} color="#e91e63" />
+          <Text style={styles.primaryButtonText}>Gửi tin nhắn</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.secondaryButton} onPress={onKeepSwiping} activeOpacity={0.8}>
+          <Text style={styles.secondaryButtonText}>Tiếp tục vuốt</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(233, 30, 99, 0.95)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  title: {
+    fontSize: 44,
+    fontWeight: 'bold',
+    fontStyle: 'italic',
+    color: '#fff',
+    marginBottom: 12,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#fff',
+    textAlign: 'center',
+    marginBottom: 40,
+  },
+  avatars: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginBottom: 56,
+  },
+  leftAvatar: {
+    transform: [{ rotate: '-8deg' }],
+    marginRight: -16,
+  },
+  rightAvatar: {
+    transform: [{ rotate: '8deg' }],
+  },
+  avatar: {
+    width: 130,
+    height: 130,
+    borderRadius: 65,
+    borderWidth: 4,
+    borderColor: '#fff',
+    backgroundColor: '#f8bbd0',
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+  avatarImage: {
+    width: '100%',
+    height: '100%',
+  },
+  avatarInitial: {
+    fontSize: 56,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 10,
+    width: '100%',
+    paddingVertical: 16,
+    borderRadius: 30,
+    backgroundColor: '#fff',
+    marginBottom: 16,
+  },
+  primaryButtonText: {
+    color: '#e91e63',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  secondaryButton: {
+    width: '100%',
+    paddingVertical: 16,
+    borderRadius: 30,
+    borderWidth: 2,
+    borderColor: '#fff',
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,219 @@
+import React from 'react';
+import {
+  ActivityIndicator,
+  Image,
+  SectionList,
+  StyleProp,
+  StyleSheet,
+  Text,
+  TextStyle,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { MatchSummary, MessageSearchResult, UserSummary } from '../services/api';
+
+type MatchSearchResultsProps = {
+  query: string;
+  people: MatchSummary[];
+  messages: MessageSearchResult[];
+  isSearching: boolean;
+  error: string | null;
+  currentUserId?: string;
+  onOpenMatch: (matchId: string) => void;
+  onOpenMessage: (matchId: string, messageId: string) => void;
+};
+
+type SearchSection =
+  | { key: 'people'; title: string; data: MatchSummary[] }
+  | { key: 'messages'; title: string; data: MessageSearchResult[] };
+
+const getPhotoUrl = (user: UserSummary) =>
+  user.photos?.find(photo => photo.isMain)?.url ?? user.photos?.[0]?.url ?? null;
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('vi-VN', { day: '2-digit', month: '2-digit' });
+
+// Bolds every case-insensitive occurrence of the query
+function HighlightedText({ text, query, style }: { text: string; query: string; style: StyleProp<TextStyle> }) {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return <Text style={style} numberOfLines={2}>{text}</Text>;
+  }
+
+  const parts: { text: string; isMatch: boolean }[] = [];
+  const haystack = text.toLowerCase();
+  let start = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    if (index > start) parts.push({ text: text.slice(start, index), isMatch: false });
+    parts.push({ text: text.slice(index, index + needle.length), isMatch: true });
+    start = index + needle.length;
+    index = haystack.indexOf(needle, start);
+  }
+  if (start < text.length) parts.push({ text: text.slice(start), isMatch: false });
+
+  return (
+    <Text style={style} numberOfLines={2}>
+      {parts.map((part, i) => (
+        <Text key={i} style={part.isMatch && styles.highlight}>
+          {part.text}
+        </Text>
+      ))}
+    </Text>
+  );
+}
+
+function Avatar({ user }: { user: UserSummary }) {
+  const photoUrl = getPhotoUrl(user);
+
+  return photoUrl ? (
+    <Image source={{ uri: photoUrl }} style={styles.avatar} />
+  ) : (
+    <View style={styles.avatar}>
+      <Ionicons name="person" size={22} color="#ccc" />
+    </View>
+  );
+}
+
+export function MatchSearchResults({
+  query,
+  people,
+  messages,
+  isSearching,
+  error,
+  currentUserId,
+  onOpenMatch,
+  onOpenMessage,
+}: MatchSearchResultsProps) {
+  const sections: SearchSection[] = [];
+  if (people.length > 0) {
+    sections.push({ key: 'people', title: `Mọi người (${people.length})`, data: people });
+  }
+  if (messages.length > 0) {
+    sections.push({ key: 'messages', title: `Tin nhắn (${messages.length})`, data: messages });
+  }
+
+  const renderPerson = (match: MatchSummary) => (
+    <TouchableOpacity style={styles.row} onPress={() => onOpenMatch(match._id)}>
+      <Avatar user={match.user} />
+      <HighlightedText text={match.user.name} query={query} style={styles.name} />
+    </TouchableOpacity>
+  );
+
+  const renderMessage = (message: MessageSearchResult) => {
+    const isOwn = message.sender._id === currentUserId;
+    const otherUser = isOwn ? message.recipient : message.sender;
+
+    return (
+      <TouchableOpacity style={styles.row} onPress={() => onOpenMessage(message.match._id, message._id)}>
+        <Avatar user={otherUser} />
+        <View style={styles.messageInfo}>
+          <View style={styles.messageHeader}>
+            <Text style={styles.name}>{otherUser.name}</Text>
+            <Text style={styles.date}>{formatDate(message.createdAt)}</Text>
+          </View>
+          <HighlightedText
+            text={`${isOwn ? 'Bạn: ' : ''}${message.content ?? ''}`}
+            query={query}
+            style={styles.snippet}
+          />
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmpty = () => {
+    if (!query.trim()) {
+      return <Text style={styles.emptyText}>Tìm theo tên hoặc nội dung tin nhắn</Text>;
+    }
+    if (isSearching) {
+      return <ActivityIndicator style={styles.loader} color="#e91e63" />;
+    }
+    return <Text style={styles.emptyText}>{error || `Không tìm thấy kết quả cho "${query.trim()}"`}</Text>;
+  };
+
+  return (
+    <SectionList<MatchSummary | MessageSearchResult, SearchSection>
+      sections={sections}
+      keyExtractor={item => item._id}
+      renderItem={({ item, section }) =>
+        section.key === 'people'
+          ? renderPerson(item as MatchSummary)
+          : renderMessage(item as MessageSearchResult)
+      }
+      renderSectionHeader={({ section }) => <Text style={styles.sectionTitle}>{section.title}</Text>}
+      ListEmptyComponent={renderEmpty}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+      stickySectionHeadersEnabled={false}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    flexGrow: 1,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#666',
+    marginTop: 20,
+    marginBottom: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 8,
+    gap: 12,
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#f0f0f0',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  messageInfo: {
+    flex: 1,
+  },
+  messageHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 2,
+  },
+  date: {
+    fontSize: 12,
+    color: '#999',
+  },
+  snippet: {
+    fontSize: 14,
+    color: '#666',
+  },
+  highlight: {
+    fontWeight: 'bold',
+    color: '#e91e63',
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  loader: {
+    marginTop: 40,
+  },
+});
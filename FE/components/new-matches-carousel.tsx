@@ -0,0 +1,136 @@
+import React from 'react';
+import { ActivityIndicator, FlatList, Image, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { MatchSummary } from '../services/api';
+
+type NewMatchesCarouselProps = {
+  matches: MatchSummary[];
+  total: number;
+  isFetchingMore: boolean;
+  onEndReached: () => void;
+  onPress: (match: MatchSummary) => void;
+  onLongPress: (match: MatchSummary) => void;
+};
+
+const getPhotoUrl = (match: MatchSummary) =>
+  match.user.photos?.find(photo => photo.isMain)?.url ?? match.user.photos?.[0]?.url ?? null;
+
+export function NewMatchesCarousel({
+  matches,
+  total,
+  isFetchingMore,
+  onEndReached,
+  onPress,
+  onLongPress,
+}: NewMatchesCarouselProps) {
+  const renderMatch = ({ item }: { item: MatchSummary }) => {
+    const photoUrl = getPhotoUrl(item);
+
+    return (
+      <TouchableOpacity style={styles.item} onPress={() => onPress(item)} onLongPress={() => onLongPress(item)}>
+        <View style={[styles.avatarRing, item.isNew && styles.newAvatarRing]}>
+          {photoUrl ? (
+            <Image source={{ uri: photoUrl }} style={styles.avatar} />
+          ) : (
+            <View style={[styles.avatar, styles.avatarPlaceholder]}>
+              <Text style={styles.avatarInitial}>{item.user.name.charAt(0).toUpperCase()}</Text>
+            </View>
+          )}
+        </View>
+        {item.isNew && (
+          <View style={styles.newBadge}>
+            <Text style={styles.newBadgeText}>Mới</Text>
+          </View>
+        )}
+        <Text style={styles.name} numberOfLines={1}>
+          {item.user.name}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Match mới ({total})</Text>
+      <FlatList
+        data={matches}
+        keyExtractor={item => item._id}
+        renderItem={renderMatch}
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.list}
+        onEndReached={onEndReached}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={isFetchingMore ? <ActivityIndicator style={styles.loader} color="#e91e63" /> : null}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  list: {
+    gap: 14,
+  },
+  item: {
+    width: 76,
+    alignItems: 'center',
+  },
+  avatarRing: {
+    padding: 3,
+    borderRadius: 40,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  newAvatarRing: {
+    borderColor: '#e91e63',
+  },
+  avatar: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: '#f0f0f0',
+  },
+  avatarPlaceholder: {
+    backgroundColor: '#f8bbd0',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarInitial: {
+    fontSize: 26,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  newBadge: {
+    position: 'absolute',
+    top: 58,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    borderRadius: 8,
+    backgroundColor: '#e91e63',
+    borderWidth: 1.5,
+    borderColor: 'white',
+  },
+  newBadgeText: {
+    fontSize: 10,
+    fontWeight: 'bold',
+    color: 'white',
+  },
+  name: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#333',
+    marginTop: 8,
+  },
+  loader: {
+    alignSelf: 'center',
+    marginTop: 24,
+  },
+});
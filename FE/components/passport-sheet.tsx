@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Modal,
+  Platform,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { searchCities } from '../constants/cities';
+
+type PassportSheetProps = {
+  visible: boolean;
+  // Current Passport city, null when browsing from the real location
+  city: string | null;
+  onClose: () => void;
+  onSelect: (city: string | null) => Promise<void>;
+};
+
+export function PassportSheet({ visible, city, onClose, onSelect }: PassportSheetProps) {
+  const [query, setQuery] = useState('');
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [wasVisible, setWasVisible] = useState(visible);
+
+  // Start with an empty search every time the sheet opens
+  if (visible !== wasVisible) {
+    setWasVisible(visible);
+    if (visible) {
+      setQuery('');
+    }
+  }
+
+  const isSaving = savingKey !== null;
+
+  const handleSelect = async (nextCity: string | null) => {
+    if (nextCity === city) {
+      onClose();
+      return;
+    }
+
+    setSavingKey(nextCity ?? 'current');
+    try {
+      await onSelect(nextCity);
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const renderCheck = (key: string, isSelected: boolean) => {
+    if (savingKey === key) {
+      return <ActivityIndicator color="#e91e63" />;
+    }
+    return isSelected ? <Ionicons name="checkmark" size={22} color="#e91e63" /> : null;
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <TouchableOpacity style={styles.overlayTouch} onPress={onClose} activeOpacity={1} />
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <TouchableOpacity onPress={onClose} disabled={isSaving}>
+              <Text style={styles.cancelText}>Đóng</Text>
+            </TouchableOpacity>
+            <Text style={styles.title}>Passport</Text>
+            <View style={styles.headerSpacer} />
+          </View>
+
+          <View style={styles.searchBox}>
+            <Ionicons name="search" size={18} color="#999" />
+            <TextInput
+              style={styles.searchInput}
+              value={query}
+              onChangeText={setQuery}
+              placeholder="Tìm thành phố"
+              placeholderTextColor="#999"
+              autoCorrect={false}
+              editable={!isSaving}
+            />
+          </View>
+
+          <TouchableOpacity
+            style={styles.row}
+            onPress={() => handleSelect(null)}
+            disabled={isSaving}
+          >
+            <Ionicons name="navigate" size={22} color="#666" />
+            <Text style={styles.rowText}>Vị trí hiện tại của tôi</Text>
+            {renderCheck('current', !city)}
+          </TouchableOpacity>
+
+          <FlatList
+            data={searchCities(query)}
+            keyExtractor={item => item.key}
+            keyboardShouldPersistTaps="handled"
+            renderItem={({ item }) => (
+              <TouchableOpacity
+                style={styles.row}
+                onPress={() => handleSelect(item.key)}
+                disabled={isSaving}
+              >
+                <Ionicons name="airplane" size={22} color="#666" />
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowText}>{item.name}</Text>
+                  <Text style={styles.rowSubtext}>{item.country}</Text>
+                </View>
+                {renderCheck(item.key, item.key === city)}
+              </TouchableOpacity>
+            )}
+            ListEmptyComponent={
+              <Text style={styles.emptyText}>Không tìm thấy thành phố phù hợp</Text>
+            }
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  overlayTouch: {
+    flex: 1,
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    height: '80%',
+    paddingBottom: Platform.OS === 'ios' ? 34 : 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  searchBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: 16,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    backgroundColor: '#f1f1f1',
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    fontSize: 16,
+    color: '#333',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    gap: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f5f5f5',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#333',
+  },
+  rowSubtext: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 2,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#999',
+    fontSize: 15,
+    padding: 30,
+  },
+});
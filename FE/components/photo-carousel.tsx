@@ -0,0 +1,109 @@
+import React, { useRef, useState } from 'react';
+import {
+  FlatList,
+  GestureResponderEvent,
+  Image,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { Photo } from '../services/api';
+
+type PhotoCarouselProps = {
+  photos: Photo[];
+  width: number;
+  height: number;
+  placeholder?: string;
+};
+
+// Paged photo viewer: swipe between photos or tap the left/right half to step through them
+export function PhotoCarousel({ photos, width, height, placeholder = '?' }: PhotoCarouselProps) {
+  const [index, setIndex] = useState(0);
+  const listRef = useRef<FlatList<Photo>>(null);
+
+  const goTo = (nextIndex: number) => {
+    if (nextIndex < 0 || nextIndex >= photos.length) return;
+    listRef.current?.scrollToIndex({ index: nextIndex, animated: true });
+    setIndex(nextIndex);
+  };
+
+  const handleTap = (event: GestureResponderEvent) => {
+    goTo(event.nativeEvent.locationX < width / 2 ? index - 1 : index + 1);
+  };
+
+  const handleMomentumEnd = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    setIndex(Math.round(event.nativeEvent.contentOffset.x / width));
+  };
+
+  if (photos.length === 0) {
+    return (
+      <View style={[styles.placeholder, { width, height }]}>
+        <Text style={styles.placeholderText}>{placeholder}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={{ width, height }}>
+      <FlatList
+        ref={listRef}
+        data={photos}
+        keyExtractor={photo => photo._id}
+        horizontal
+        pagingEnabled
+        showsHorizontalScrollIndicator={false}
+        onMomentumScrollEnd={handleMomentumEnd}
+        getItemLayout={(_, itemIndex) => ({ length: width, offset: width * itemIndex, index: itemIndex })}
+        renderItem={({ item }) => (
+          <Pressable onPress={handleTap}>
+            <Image source={{ uri: item.url }} style={{ width, height }} />
+          </Pressable>
+        )}
+      />
+
+      {photos.length > 1 && (
+        <View style={styles.dots} pointerEvents="none">
+          {photos.map((photo, dotIndex) => (
+            <View
+              key={photo._id}
+              style={[styles.dot, dotIndex === index && styles.activeDot]}
+            />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  placeholder: {
+    backgroundColor: '#f8bbd0',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  placeholderText: {
+    fontSize: 96,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  dots: {
+    position: 'absolute',
+    top: 12,
+    left: 12,
+    right: 12,
+    flexDirection: 'row',
+    gap: 4,
+  },
+  dot: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255, 255, 255, 0.4)',
+  },
+  activeDot: {
+    backgroundColor: '#fff',
+  },
+});
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import Animated, { runOnJS, useAnimatedStyle, useSharedValue } from 'react-native-reanimated';
+
+const THUMB_SIZE = 28;
+const THUMB_HIT_SLOP = 12;
+
+type RangeSliderProps = {
+  min: number;
+  max: number;
+  step?: number;
+  // One value renders a single thumb, two values render a range with two thumbs
+  values: number[];
+  onValuesChange: (values: number[]) => void;
+};
+
+// Slider whose thumbs are dragged on the UI thread; the JS side only hears about values that changed
+export function RangeSlider({ min, max, step = 1, values, onValuesChange }: RangeSliderProps) {
+  const [trackWidth, setTrackWidth] = useState(0);
+  const isRange = values.length > 1;
+
+  // Thumb positions in px along the track, and the values they stand for
+  const firstX = useSharedValue(0);
+  const secondX = useSharedValue(0);
+  const dragStartX = useSharedValue(0);
+  const current = useSharedValue(values);
+
+  // Follow values set from outside (e.g. when the sheet opens) and the measured track width
+  useEffect(() => {
+    current.value = values;
+    firstX.value = ((values[0] - min) / (max - min)) * trackWidth;
+    secondX.value = ((values[values.length - 1] - min) / (max - min)) * trackWidth;
+  }, [values, min, max, trackWidth, current, firstX, secondX]);
+
+  const thumbGesture = (thumbIndex: number) => {
+    const position = thumbIndex === 0 ? firstX : secondX;
+
+    return Gesture.Pan()
+      .enabled(trackWidth > 0)
+      .hitSlop(THUMB_HIT_SLOP)
+      .onBegin(() => {
+        dragStartX.value = position.value;
+      })
+      .onUpdate(event => {
+        const raw = min + ((dragStartX.value + event.translationX) / trackWidth) * (max - min);
+        const stepped = min + Math.round((raw - min) / step) * step;
+
+        // Thumbs can meet but never cross each other
+        const currentValues = current.value;
+        const lowerBound = thumbIndex > 0 ? currentValues[thumbIndex - 1] : min;
+        const upperBound = thumbIndex < currentValues.length - 1 ? currentValues[thumbIndex + 1] : max;
+        const next = Math.min(Math.max(stepped, lowerBound), upperBound);
+
+        if (next !== currentValues[thumbIndex]) {
+          const nextValues = [...currentValues];
+          nextValues[thumbIndex] = next;
+          current.value = nextValues;
+          position.value = ((next - min) / (max - min)) * trackWidth;
+          runOnJS(onValuesChange)(nextValues);
+        }
+      });
+  };
+
+  const activeTrackStyle = useAnimatedStyle(() => {
+    const start = isRange ? firstX.value : 0;
+    const end = isRange ? secondX.value : firstX.value;
+    return { left: THUMB_SIZE / 2 + start, width: Math.max(end - start, 0) };
+  });
+  const firstThumbStyle = useAnimatedStyle(() => ({ transform: [{ translateX: firstX.value }] }));
+  const secondThumbStyle = useAnimatedStyle(() => ({ transform: [{ translateX: secondX.value }] }));
+
+  return (
+    <View
+      style={styles.container}
+      onLayout={event => setTrackWidth(event.nativeEvent.layout.width - THUMB_SIZE)}
+    >
+      <View style={styles.track} />
+      <Animated.View style={[styles.activeTrack, activeTrackStyle]} />
+      <GestureDetector gesture={thumbGesture(0)}>
+        <Animated.View style={[styles.thumb, firstThumbStyle]} />
+      </GestureDetector>
+      {isRange && (
+        <GestureDetector gesture={thumbGesture(1)}>
+          <Animated.View style={[styles.thumb, secondThumbStyle]} />
+        </GestureDetector>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    height: THUMB_SIZE + 12,
+    justifyContent: 'center',
+  },
+  track: {
+    position: 'absolute',
+    left: THUMB_SIZE / 2,
+    right: THUMB_SIZE / 2,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#e0e0e0',
+  },
+  activeTrack: {
+    position: 'absolute',
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#e91e63',
+  },
+  thumb: {
+    position: 'absolute',
+    left: 0,
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: THUMB_SIZE / 2,
+    backgroundColor: '#fff',
+    borderWidth: 2,
+    borderColor: '#e91e63',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 3,
+    elevation: 3,
+  },
+});
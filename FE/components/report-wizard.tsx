@@ -0,0 +1,380 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  Platform,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { REPORT_REASONS } from '../constants/reasons';
+import { apiService, Message, ReportReason } from '../services/api';
+
+type ReportStep = 'reason' | 'evidence' | 'details';
+
+type ReportWizardProps = {
+  visible: boolean;
+  // The person being reported
+  userId: string;
+  name: string;
+  // Set when reporting from a conversation, which lets the user attach messages as evidence
+  matchId?: string;
+  onClose: () => void;
+  onReported: () => void;
+};
+
+const MAX_EVIDENCE = 10;
+const MAX_DESCRIPTION = 1000;
+
+const STEP_TITLES: Record<ReportStep, string> = {
+  reason: 'Báo cáo',
+  evidence: 'Chọn tin nhắn',
+  details: 'Mô tả thêm',
+};
+
+const getMessagePreview = (message: Message) => {
+  switch (message.messageType) {
+    case 'image':
+      return '📷 Hình ảnh';
+    case 'gif':
+      return 'GIF';
+    default:
+      return message.content ?? '';
+  }
+};
+
+export function ReportWizard({ visible, userId, name, matchId, onClose, onReported }: ReportWizardProps) {
+  const [step, setStep] = useState<ReportStep>('reason');
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [evidenceIds, setEvidenceIds] = useState<string[]>([]);
+  const [description, setDescription] = useState('');
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [isLoadingMessages, setIsLoadingMessages] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [wasVisible, setWasVisible] = useState(visible);
+
+  // Start from the first step every time the wizard opens
+  if (visible !== wasVisible) {
+    setWasVisible(visible);
+    if (visible) {
+      setStep('reason');
+      setReason(null);
+      setEvidenceIds([]);
+      setDescription('');
+    }
+  }
+
+  // Only the reported user's own messages can be attached
+  useEffect(() => {
+    if (!visible || !matchId) return;
+
+    let cancelled = false;
+    setIsLoadingMessages(true);
+
+    apiService.getMatchMessages(matchId, 1, 50)
+      .then(({ messages: page }) => {
+        if (!cancelled) setMessages(page.filter(message => message.sender._id === userId));
+      })
+      .catch((err: any) => {
+        console.error('Load report evidence error:', err);
+        if (!cancelled) setMessages([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingMessages(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, matchId, userId]);
+
+  const steps: ReportStep[] = matchId ? ['reason', 'evidence', 'details'] : ['reason', 'details'];
+  const stepIndex = steps.indexOf(step);
+
+  const goBack = () => {
+    if (stepIndex === 0) {
+      onClose();
+    } else {
+      setStep(steps[stepIndex - 1]);
+    }
+  };
+
+  const toggleEvidence = (messageId: string) => {
+    setEvidenceIds(current => {
+      if (current.includes(messageId)) {
+        return current.filter(id => id !== messageId);
+      }
+      return current.length < MAX_EVIDENCE ? [...current, messageId] : current;
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!reason) return;
+
+    setIsSubmitting(true);
+    try {
+      const trimmed = description.trim();
+      const report = { reason, description: trimmed || undefined };
+
+      if (matchId) {
+        await apiService.reportMatch(matchId, { ...report, evidenceMessageIds: evidenceIds });
+      } else {
+        await apiService.reportUser(userId, report);
+      }
+
+      Alert.alert('Đã gửi báo cáo', 'Cảm ơn bạn đã giúp cộng đồng an toàn hơn. Chúng tôi sẽ xem xét báo cáo này.');
+      onReported();
+    } catch (err: any) {
+      if (err.message === 'You have already reported this user') {
+        Alert.alert('Đã báo cáo', `Bạn đã báo cáo ${name} và báo cáo đang được xem xét.`);
+        onClose();
+        return;
+      }
+      console.error('Report error:', err);
+      Alert.alert('Lỗi', err.message || 'Không thể gửi báo cáo, vui lòng thử lại');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderReasonStep = () => (
+    <>
+      <Text style={styles.description}>
+        {name} sẽ không biết bạn đã báo cáo. Hãy cho chúng tôi biết vấn đề là gì.
+      </Text>
+      {REPORT_REASONS.map(option => (
+        <TouchableOpacity
+          key={option.key}
+          style={styles.row}
+          onPress={() => {
+            setReason(option.key);
+            setStep(steps[1]);
+          }}
+        >
+          <View style={styles.rowInfo}>
+            <Text style={styles.rowText}>{option.label}</Text>
+            <Text style={styles.rowSubtext}>{option.description}</Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#ccc" />
+        </TouchableOpacity>
+      ))}
+    </>
+  );
+
+  const renderEvidenceStep = () => (
+    <>
+      <Text style={styles.description}>
+        Chọn tối đa {MAX_EVIDENCE} tin nhắn của {name} liên quan đến báo cáo (không bắt buộc).
+      </Text>
+      {isLoadingMessages ? (
+        <ActivityIndicator style={styles.loader} color="#e91e63" />
+      ) : (
+        <FlatList
+          data={messages}
+          keyExtractor={item => item._id}
+          style={styles.evidenceList}
+          ListEmptyComponent={<Text style={styles.emptyText}>{name} chưa gửi tin nhắn nào</Text>}
+          renderItem={({ item }) => {
+            const isSelected = evidenceIds.includes(item._id);
+
+            return (
+              <TouchableOpacity style={styles.row} onPress={() => toggleEvidence(item._id)}>
+                <Text style={[styles.rowText, styles.evidenceText]} numberOfLines={2}>
+                  {getMessagePreview(item)}
+                </Text>
+                <Ionicons
+                  name={isSelected ? 'checkbox' : 'square-outline'}
+                  size={22}
+                  color={isSelected ? '#e91e63' : '#ccc'}
+                />
+              </TouchableOpacity>
+            );
+          }}
+        />
+      )}
+      <TouchableOpacity style={styles.primaryButton} onPress={() => setStep('details')}>
+        <Text style={styles.primaryText}>
+          {evidenceIds.length > 0 ? `Tiếp tục (${evidenceIds.length})` : 'Bỏ qua'}
+        </Text>
+      </TouchableOpacity>
+    </>
+  );
+
+  const renderDetailsStep = () => (
+    <>
+      <Text style={styles.description}>
+        Mô tả những gì đã xảy ra (không bắt buộc). Thông tin càng cụ thể càng giúp chúng tôi xử lý nhanh hơn.
+      </Text>
+      <TextInput
+        style={styles.input}
+        value={description}
+        onChangeText={setDescription}
+        placeholder="Mô tả vấn đề..."
+        placeholderTextColor="#999"
+        multiline
+        maxLength={MAX_DESCRIPTION}
+        editable={!isSubmitting}
+      />
+      <Text style={styles.counter}>
+        {description.length}/{MAX_DESCRIPTION}
+      </Text>
+      <TouchableOpacity style={styles.submitButton} onPress={handleSubmit} disabled={isSubmitting}>
+        {isSubmitting ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <Text style={styles.primaryText}>Gửi báo cáo</Text>
+        )}
+      </TouchableOpacity>
+    </>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={goBack}>
+      <View style={styles.overlay}>
+        <TouchableOpacity style={styles.overlayTouch} onPress={onClose} activeOpacity={1} />
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <TouchableOpacity onPress={goBack} disabled={isSubmitting}>
+              <Text style={styles.cancelText}>{stepIndex === 0 ? 'Đóng' : 'Quay lại'}</Text>
+            </TouchableOpacity>
+            <Text style={styles.title}>{STEP_TITLES[step]}</Text>
+            <Text style={styles.stepText}>
+              {stepIndex + 1}/{steps.length}
+            </Text>
+          </View>
+
+          {step === 'reason' && renderReasonStep()}
+          {step === 'evidence' && renderEvidenceStep()}
+          {step === 'details' && renderDetailsStep()}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  overlayTouch: {
+    flex: 1,
+  },
+  sheet: {
+    maxHeight: '85%',
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingBottom: Platform.OS === 'ios' ? 34 : 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  stepText: {
+    width: 40,
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'right',
+  },
+  description: {
+    fontSize: 14,
+    color: '#666',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f5f5f5',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowText: {
+    fontSize: 16,
+    color: '#333',
+  },
+  rowSubtext: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 2,
+  },
+  evidenceList: {
+    maxHeight: 320,
+  },
+  evidenceText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+  loader: {
+    marginVertical: 24,
+  },
+  input: {
+    minHeight: 120,
+    marginHorizontal: 20,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#f5f5f5',
+    fontSize: 16,
+    color: '#333',
+    textAlignVertical: 'top',
+  },
+  counter: {
+    fontSize: 12,
+    color: '#999',
+    textAlign: 'right',
+    paddingHorizontal: 20,
+    paddingTop: 6,
+  },
+  primaryButton: {
+    marginHorizontal: 20,
+    marginTop: 20,
+    paddingVertical: 14,
+    borderRadius: 25,
+    backgroundColor: '#e91e63',
+    alignItems: 'center',
+  },
+  submitButton: {
+    marginHorizontal: 20,
+    marginTop: 20,
+    paddingVertical: 14,
+    borderRadius: 25,
+    backgroundColor: '#f44336',
+    alignItems: 'center',
+  },
+  primaryText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+});
@@ -0,0 +1,319 @@
+import React, { ReactNode, Ref, useImperativeHandle, useLayoutEffect, useRef } from 'react';
+import { Dimensions, StyleProp, StyleSheet, View, ViewStyle } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import Animated, {
+  Extrapolation,
+  interpolate,
+  runOnJS,
+  SharedValue,
+  useAnimatedReaction,
+  useAnimatedStyle,
+  useSharedValue,
+  withSpring,
+  withTiming,
+} from 'react-native-reanimated';
+import { AntDesign, MaterialIcons } from '@expo/vector-icons';
+import { SwipeAction } from '../services/api';
+
+const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
+
+// A card counts as swiped once it is dragged past these distances or flung faster than FLING_VELOCITY (px/s)
+const SWIPE_THRESHOLD = SCREEN_WIDTH * 0.3;
+const SUPER_LIKE_THRESHOLD = SCREEN_HEIGHT * 0.15;
+const FLING_VELOCITY = 800;
+const EXIT_DURATION = 250;
+
+// Number of cards rendered (the top card plus the ones peeking out underneath)
+const VISIBLE_CARDS = 3;
+const STACK_SCALE_STEP = 0.05;
+const STACK_OFFSET_STEP = 14;
+
+export type SwipeDeckHandle = {
+  // Throws the top card off screen as if it had been swiped
+  swipe: (action: SwipeAction) => void;
+  // Brings a card (e.g. one just put back by a rewind) in from the side it left through
+  animateIn: (itemId: string, from: SwipeAction) => void;
+};
+
+type SwipeDeckProps<T extends { _id: string }> = {
+  ref?: Ref<SwipeDeckHandle>;
+  // Cards from the top of the deck down; only the first few are rendered
+  items: T[];
+  renderCard: (item: T) => ReactNode;
+  // Called once the swipe animation has finished
+  onSwipe: (item: T, action: SwipeAction) => void;
+  onTap?: (item: T) => void;
+  canSuperLike?: boolean;
+  onSuperLikeBlocked?: () => void;
+  style?: StyleProp<ViewStyle>;
+  cardStyle?: StyleProp<ViewStyle>;
+};
+
+type CardController = {
+  fling: (action: SwipeAction) => void;
+  enter: (from: SwipeAction) => void;
+};
+
+const offScreenPosition = (action: SwipeAction, y: number) => {
+  'worklet';
+  if (action === 'superlike') {
+    return { x: 0, y: -SCREEN_HEIGHT * 1.2 };
+  }
+  return { x: (action === 'like' ? 1 : -1) * SCREEN_WIDTH * 1.5, y };
+};
+
+const resolveSwipe = (
+  translationX: number,
+  translationY: number,
+  velocityX: number,
+  velocityY: number
+): SwipeAction | null => {
+  'worklet';
+  const isVertical = Math.abs(translationY) > Math.abs(translationX);
+  if ((isVertical && translationY < -SUPER_LIKE_THRESHOLD) || (velocityY < -FLING_VELOCITY && -velocityY > Math.abs(velocityX))) {
+    return 'superlike';
+  }
+  if (translationX > SWIPE_THRESHOLD || velocityX > FLING_VELOCITY) {
+    return 'like';
+  }
+  if (translationX < -SWIPE_THRESHOLD || velocityX < -FLING_VELOCITY) {
+    return 'pass';
+  }
+  return null;
+};
+
+type SwipeCardProps<T extends { _id: string }> = {
+  item: T;
+  depth: number;
+  progress: SharedValue<number>;
+  controllers: React.RefObject<Map<string, CardController>>;
+  pendingEnter: React.RefObject<{ itemId: string; from: SwipeAction } | null>;
+} & Pick<SwipeDeckProps<T>, 'renderCard' | 'onSwipe' | 'onTap' | 'canSuperLike' | 'onSuperLikeBlocked' | 'cardStyle'>;
+
+function SwipeCard<T extends { _id: string }>({
+  item,
+  depth,
+  progress,
+  controllers,
+  pendingEnter,
+  renderCard,
+  onSwipe,
+  onTap,
+  canSuperLike = true,
+  onSuperLikeBlocked,
+  cardStyle,
+}: SwipeCardProps<T>) {
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const isExiting = useSharedValue(false);
+  const isTop = depth === 0;
+
+  const finishSwipe = (action: SwipeAction) => onSwipe(item, action);
+  const handleTap = () => onTap?.(item);
+  const handleSuperLikeBlocked = () => onSuperLikeBlocked?.();
+
+  const fling = (action: SwipeAction) => {
+    'worklet';
+    if (isExiting.value) return;
+    isExiting.value = true;
+
+    const target = offScreenPosition(action, translateY.value);
+    translateX.value = withTiming(target.x, { duration: EXIT_DURATION });
+    translateY.value = withTiming(target.y, { duration: EXIT_DURATION }, finished => {
+      if (finished) runOnJS(finishSwipe)(action);
+    });
+  };
+
+  const springBack = () => {
+    'worklet';
+    translateX.value = withSpring(0);
+    translateY.value = withSpring(0);
+  };
+
+  const enter = (from: SwipeAction) => {
+    const start = offScreenPosition(from, 0);
+    isExiting.value = false;
+    translateX.value = start.x;
+    translateY.value = start.y;
+    springBack();
+  };
+
+  useLayoutEffect(() => {
+    const registry = controllers.current;
+    registry.set(item._id, { fling, enter });
+
+    if (pendingEnter.current?.itemId === item._id) {
+      enter(pendingEnter.current.from);
+      pendingEnter.current = null;
+    }
+
+    return () => {
+      registry.delete(item._id);
+    };
+  });
+
+  // The top card drives how far the cards underneath have moved up into its place
+  useAnimatedReaction(
+    () => Math.min(
+      Math.max(Math.abs(translateX.value) / SWIPE_THRESHOLD, Math.abs(translateY.value) / SUPER_LIKE_THRESHOLD),
+      1
+    ),
+    value => {
+      if (isTop) progress.value = value;
+    },
+    [isTop]
+  );
+
+  const pan = Gesture.Pan()
+    .enabled(isTop)
+    .onUpdate(event => {
+      if (isExiting.value) return;
+      translateX.value = event.translationX;
+      translateY.value = event.translationY;
+    })
+    .onEnd(event => {
+      if (isExiting.value) return;
+      const action = resolveSwipe(event.translationX, event.translationY, event.velocityX, event.velocityY);
+
+      if (action === 'superlike' && !canSuperLike) {
+        springBack();
+        runOnJS(handleSuperLikeBlocked)();
+      } else if (action) {
+        fling(action);
+      } else {
+        springBack();
+      }
+    });
+
+  const tap = Gesture.Tap()
+    .enabled(isTop && !!onTap)
+    .onEnd((_, success) => {
+      if (success) runOnJS(handleTap)();
+    });
+
+  const cardAnimatedStyle = useAnimatedStyle(() => {
+    if (isTop) {
+      const rotate = interpolate(translateX.value, [-SCREEN_WIDTH / 2, 0, SCREEN_WIDTH / 2], [-15, 0, 15], Extrapolation.CLAMP);
+      return {
+        transform: [
+          { translateX: translateX.value },
+          { translateY: translateY.value },
+          { rotate: `${rotate}deg` },
+        ],
+      };
+    }
+
+    // Cards underneath grow into the next position as the top card moves away
+    const level = Math.max(depth - progress.value, 0);
+    return {
+      transform: [
+        { translateY: level * STACK_OFFSET_STEP },
+        { scale: 1 - level * STACK_SCALE_STEP },
+      ],
+    };
+  });
+
+  const likeStyle = useAnimatedStyle(() => ({
+    opacity: interpolate(translateX.value, [0, SWIPE_THRESHOLD], [0, 1], Extrapolation.CLAMP),
+  }));
+  const passStyle = useAnimatedStyle(() => ({
+    opacity: interpolate(translateX.value, [-SWIPE_THRESHOLD, 0], [1, 0], Extrapolation.CLAMP),
+  }));
+  const superLikeStyle = useAnimatedStyle(() => ({
+    opacity: interpolate(translateY.value, [-SUPER_LIKE_THRESHOLD, 0], [1, 0], Extrapolation.CLAMP),
+  }));
+
+  return (
+    <GestureDetector gesture={Gesture.Race(pan, tap)}>
+      <Animated.View
+        style={[styles.card, cardStyle, cardAnimatedStyle]}
+        pointerEvents={isTop ? 'auto' : 'none'}
+      >
+        {renderCard(item)}
+
+        {isTop && (
+          <>
+            <Animated.View style={[styles.indicator, styles.likeIndicator, likeStyle]}>
+              <AntDesign name="heart" size={50} color="#4CAF50" />
+            </Animated.View>
+            <Animated.View style={[styles.indicator, styles.passIndicator, passStyle]}>
+              <MaterialIcons name="close" size={50} color="#f44336" />
+            </Animated.View>
+            <Animated.View style={[styles.indicator, styles.superLikeIndicator, superLikeStyle]}>
+              <AntDesign name="star" size={50} color="#2196F3" />
+            </Animated.View>
+          </>
+        )}
+      </Animated.View>
+    </GestureDetector>
+  );
+}
+
+// Card stack whose drag, fling and stacking animations all run on the UI thread
+export function SwipeDeck<T extends { _id: string }>({ ref, items, style, ...cardProps }: SwipeDeckProps<T>) {
+  const progress = useSharedValue(0);
+  const controllers = useRef(new Map<string, CardController>());
+  const pendingEnter = useRef<{ itemId: string; from: SwipeAction } | null>(null);
+
+  useImperativeHandle(ref, () => ({
+    swipe: action => {
+      const top = items[0];
+      if (top) controllers.current.get(top._id)?.fling(action);
+    },
+    animateIn: (itemId, from) => {
+      const controller = controllers.current.get(itemId);
+      if (controller) {
+        controller.enter(from);
+      } else {
+        // The card hasn't rendered yet; it picks this up when it mounts
+        pendingEnter.current = { itemId, from };
+      }
+    },
+  }), [items]);
+
+  const visibleItems = items.slice(0, VISIBLE_CARDS);
+
+  return (
+    <View style={style}>
+      {/* Rendered bottom-up so the top card is drawn last */}
+      {visibleItems
+        .map((item, depth) => (
+          <SwipeCard
+            key={item._id}
+            item={item}
+            depth={depth}
+            progress={progress}
+            controllers={controllers}
+            pendingEnter={pendingEnter}
+            {...cardProps}
+          />
+        ))
+        .reverse()}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+  },
+  indicator: {
+    position: 'absolute',
+    zIndex: 1000,
+    padding: 20,
+  },
+  likeIndicator: {
+    top: '45%',
+    right: 30,
+  },
+  passIndicator: {
+    top: '45%',
+    left: 30,
+  },
+  superLikeIndicator: {
+    bottom: '30%',
+    alignSelf: 'center',
+  },
+});
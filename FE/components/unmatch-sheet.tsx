@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Platform,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { UNMATCH_REASONS } from '../constants/reasons';
+import { UnmatchReason } from '../services/api';
+
+type UnmatchSheetProps = {
+  visible: boolean;
+  // Name of the person being unmatched
+  name: string;
+  onClose: () => void;
+  onConfirm: (reason: UnmatchReason | null) => Promise<void>;
+};
+
+export function UnmatchSheet({ visible, name, onClose, onConfirm }: UnmatchSheetProps) {
+  const [reason, setReason] = useState<UnmatchReason | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [wasVisible, setWasVisible] = useState(visible);
+
+  // Start without a reason every time the sheet opens
+  if (visible !== wasVisible) {
+    setWasVisible(visible);
+    if (visible) {
+      setReason(null);
+    }
+  }
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    try {
+      await onConfirm(reason);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <TouchableOpacity style={styles.overlayTouch} onPress={onClose} activeOpacity={1} />
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <TouchableOpacity onPress={onClose} disabled={isSaving}>
+              <Text style={styles.cancelText}>Đóng</Text>
+            </TouchableOpacity>
+            <Text style={styles.title}>Hủy ghép đôi</Text>
+            <View style={styles.headerSpacer} />
+          </View>
+
+          <Text style={styles.description}>
+            Bạn và {name} sẽ không thể nhắn tin hay nhìn thấy nhau nữa. Cuộc trò chuyện sẽ bị xóa.
+          </Text>
+
+          <Text style={styles.sectionTitle}>Lý do (không bắt buộc)</Text>
+          {UNMATCH_REASONS.map(option => {
+            const isSelected = option.key === reason;
+
+            return (
+              <TouchableOpacity
+                key={option.key}
+                style={styles.row}
+                onPress={() => setReason(isSelected ? null : option.key)}
+                disabled={isSaving}
+              >
+                <Text style={styles.rowText}>{option.label}</Text>
+                <Ionicons
+                  name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+                  size={22}
+                  color={isSelected ? '#e91e63' : '#ccc'}
+                />
+              </TouchableOpacity>
+            );
+          })}
+
+          <TouchableOpacity style={styles.confirmButton} onPress={handleConfirm} disabled={isSaving}>
+            {isSaving ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.confirmText}>Hủy ghép đôi với {name}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  overlayTouch: {
+    flex: 1,
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingBottom: Platform.OS === 'ios' ? 34 : 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  description: {
+    fontSize: 14,
+    color: '#666',
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f5f5f5',
+  },
+  rowText: {
+    fontSize: 16,
+    color: '#333',
+  },
+  confirmButton: {
+    marginHorizontal: 20,
+    marginTop: 20,
+    paddingVertical: 14,
+    borderRadius: 25,
+    backgroundColor: '#f44336',
+    alignItems: 'center',
+  },
+  confirmText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+});
@@ -0,0 +1,71 @@
+import { Passport } from '../services/api';
+
+// Keys must stay in sync with the Passport cities in BE/Config/cities.js
+export const CITIES: { key: string; name: string; country: string }[] = [
+  { key: 'hanoi', name: 'Hà Nội', country: 'Việt Nam' },
+  { key: 'ho-chi-minh-city', name: 'TP. Hồ Chí Minh', country: 'Việt Nam' },
+  { key: 'da-nang', name: 'Đà Nẵng', country: 'Việt Nam' },
+  { key: 'hai-phong', name: 'Hải Phòng', country: 'Việt Nam' },
+  { key: 'can-tho', name: 'Cần Thơ', country: 'Việt Nam' },
+  { key: 'nha-trang', name: 'Nha Trang', country: 'Việt Nam' },
+  { key: 'da-lat', name: 'Đà Lạt', country: 'Việt Nam' },
+  { key: 'hue', name: 'Huế', country: 'Việt Nam' },
+  { key: 'vung-tau', name: 'Vũng Tàu', country: 'Việt Nam' },
+  { key: 'phu-quoc', name: 'Phú Quốc', country: 'Việt Nam' },
+  { key: 'quy-nhon', name: 'Quy Nhơn', country: 'Việt Nam' },
+  { key: 'ha-long', name: 'Hạ Long', country: 'Việt Nam' },
+  { key: 'bangkok', name: 'Bangkok', country: 'Thái Lan' },
+  { key: 'singapore', name: 'Singapore', country: 'Singapore' },
+  { key: 'kuala-lumpur', name: 'Kuala Lumpur', country: 'Malaysia' },
+  { key: 'jakarta', name: 'Jakarta', country: 'Indonesia' },
+  { key: 'manila', name: 'Manila', country: 'Philippines' },
+  { key: 'phnom-penh', name: 'Phnôm Pênh', country: 'Campuchia' },
+  { key: 'vientiane', name: 'Viêng Chăn', country: 'Lào' },
+  { key: 'seoul', name: 'Seoul', country: 'Hàn Quốc' },
+  { key: 'tokyo', name: 'Tokyo', country: 'Nhật Bản' },
+  { key: 'osaka', name: 'Osaka', country: 'Nhật Bản' },
+  { key: 'taipei', name: 'Đài Bắc', country: 'Đài Loan' },
+  { key: 'hong-kong', name: 'Hồng Kông', country: 'Trung Quốc' },
+  { key: 'shanghai', name: 'Thượng Hải', country: 'Trung Quốc' },
+  { key: 'beijing', name: 'Bắc Kinh', country: 'Trung Quốc' },
+  { key: 'dubai', name: 'Dubai', country: 'UAE' },
+  { key: 'sydney', name: 'Sydney', country: 'Úc' },
+  { key: 'melbourne', name: 'Melbourne', country: 'Úc' },
+  { key: 'london', name: 'London', country: 'Anh' },
+  { key: 'paris', name: 'Paris', country: 'Pháp' },
+  { key: 'berlin', name: 'Berlin', country: 'Đức' },
+  { key: 'amsterdam', name: 'Amsterdam', country: 'Hà Lan' },
+  { key: 'prague', name: 'Praha', country: 'Séc' },
+  { key: 'rome', name: 'Rome', country: 'Ý' },
+  { key: 'barcelona', name: 'Barcelona', country: 'Tây Ban Nha' },
+  { key: 'moscow', name: 'Moskva', country: 'Nga' },
+  { key: 'new-york', name: 'New York', country: 'Mỹ' },
+  { key: 'los-angeles', name: 'Los Angeles', country: 'Mỹ' },
+  { key: 'san-francisco', name: 'San Francisco', country: 'Mỹ' },
+  { key: 'toronto', name: 'Toronto', country: 'Canada' },
+  { key: 'vancouver', name: 'Vancouver', country: 'Canada' },
+];
+
+export const getCityName = (key: string) =>
+  CITIES.find(city => city.key === key)?.name ?? key;
+
+// Lets "ha noi" or "da nang" match the accented names
+const normalize = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .trim();
+
+export const searchCities = (query: string) => {
+  const needle = normalize(query);
+  if (!needle) return CITIES;
+  return CITIES.filter(
+    city => normalize(city.name).includes(needle) || normalize(city.country).includes(needle)
+  );
+};
+
+// Label shown to others while someone browses via Passport, null when Passport is off
+export const getPassportLabel = (passport?: Passport | null) =>
+  passport?.city ? `Đang ở ${getCityName(passport.city)} qua Passport` : null;
@@ -0,0 +1,35 @@
+import { Ionicons } from '@expo/vector-icons';
+import { ComponentProps } from 'react';
+
+// Keys must stay in sync with the backend catalog in BE/Config/interests.js
+export const INTERESTS: { key: string; label: string; icon: ComponentProps<typeof Ionicons>['name'] }[] = [
+  { key: 'travel', label: 'Du lịch', icon: 'airplane' },
+  { key: 'music', label: 'Âm nhạc', icon: 'musical-notes' },
+  { key: 'movies', label: 'Xem phim', icon: 'film' },
+  { key: 'reading', label: 'Đọc sách', icon: 'book' },
+  { key: 'cooking', label: 'Nấu ăn', icon: 'restaurant' },
+  { key: 'coffee', label: 'Cà phê', icon: 'cafe' },
+  { key: 'food', label: 'Ẩm thực', icon: 'pizza' },
+  { key: 'fitness', label: 'Gym', icon: 'barbell' },
+  { key: 'yoga', label: 'Yoga', icon: 'body' },
+  { key: 'running', label: 'Chạy bộ', icon: 'walk' },
+  { key: 'football', label: 'Bóng đá', icon: 'football' },
+  { key: 'swimming', label: 'Bơi lội', icon: 'water' },
+  { key: 'hiking', label: 'Leo núi', icon: 'trail-sign' },
+  { key: 'photography', label: 'Nhiếp ảnh', icon: 'camera' },
+  { key: 'art', label: 'Nghệ thuật', icon: 'color-palette' },
+  { key: 'dancing', label: 'Nhảy', icon: 'musical-note' },
+  { key: 'gaming', label: 'Chơi game', icon: 'game-controller' },
+  { key: 'technology', label: 'Công nghệ', icon: 'hardware-chip' },
+  { key: 'fashion', label: 'Thời trang', icon: 'shirt' },
+  { key: 'pets', label: 'Thú cưng', icon: 'paw' },
+  { key: 'karaoke', label: 'Karaoke', icon: 'mic' },
+  { key: 'camping', label: 'Cắm trại', icon: 'bonfire' },
+  { key: 'volunteering', label: 'Tình nguyện', icon: 'heart-circle' },
+  { key: 'languages', label: 'Ngoại ngữ', icon: 'language' },
+];
+
+export const MAX_INTERESTS = 10;
+
+export const getInterestLabel = (key: string) =>
+  INTERESTS.find(interest => interest.key === key)?.label ?? key;
@@ -0,0 +1,18 @@
+import { ReportReason, UnmatchReason } from '../services/api';
+
+// Keys must stay in sync with the backend list in BE/Config/reasons.js
+export const UNMATCH_REASONS: { key: UnmatchReason; label: string }[] = [
+  { key: 'no_connection', label: 'Không hợp nhau' },
+  { key: 'not_responding', label: 'Không trả lời tin nhắn' },
+  { key: 'inappropriate', label: 'Hành vi không phù hợp' },
+  { key: 'met_someone', label: 'Tôi đã gặp được người khác' },
+  { key: 'other', label: 'Lý do khác' },
+];
+
+export const REPORT_REASONS: { key: ReportReason; label: string; description: string }[] = [
+  { key: 'fake_profile', label: 'Hồ sơ giả mạo', description: 'Dùng ảnh hoặc thông tin của người khác' },
+  { key: 'harassment', label: 'Quấy rối', description: 'Tin nhắn xúc phạm, đe dọa hoặc khiếm nhã' },
+  { key: 'spam', label: 'Spam hoặc lừa đảo', description: 'Quảng cáo, đường link lạ hoặc xin tiền' },
+  { key: 'underage', label: 'Chưa đủ tuổi', description: 'Người này có vẻ dưới 18 tuổi' },
+  { key: 'other', label: 'Lý do khác', description: 'Vấn đề không có trong danh sách' },
+];
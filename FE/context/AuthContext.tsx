@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { apiService, User, LoginCredentials, RegisterData, AuthResponse } from '../services/api';
+import { disconnectSocket } from '../services/socket';
 
 interface AuthContextType {
   user: User | null;
@@ -10,6 +11,7 @@ interface AuthContextType {
   register: (userData: RegisterData) => Promise<AuthResponse>;
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
+  updateProfile: (updates: Partial<User>) => Promise<AuthResponse>;
   error: string | null;
   clearError: () => void;
 }
@@ -122,6 +124,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     } catch (error) {
       console.error('Logout error:', error);
     } finally {
+      disconnectSocket();
       setUser(null);
       setIsLoading(false);
     }
@@ -140,6 +143,17 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const updateProfile = async (updates: Partial<User>): Promise<AuthResponse> => {
+    const response = await apiService.updateProfile(updates);
+
+    if (response.success && response.data) {
+      setUser(response.data.user);
+      await AsyncStorage.setItem('user_data', JSON.stringify(response.data.user));
+    }
+
+    return response;
+  };
+
   const contextValue: AuthContextType = {
     user,
     isLoading,
@@ -148,6 +162,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     register,
     logout,
     refreshUser,
+    updateProfile,
     error,
     clearError,
   };
@@ -0,0 +1,29 @@
+import React, { createContext, useContext, ReactNode } from 'react';
+import { useDiscoverFeed } from '../hooks/use-discover-feed';
+
+// The deck is shared so screens outside the home tab (e.g. the full profile view) can swipe on it
+type DiscoverContextType = ReturnType<typeof useDiscoverFeed>;
+
+const DiscoverContext = createContext<DiscoverContextType | undefined>(undefined);
+
+interface DiscoverProviderProps {
+  children: ReactNode;
+}
+
+export const DiscoverProvider: React.FC<DiscoverProviderProps> = ({ children }) => {
+  const feed = useDiscoverFeed();
+
+  return (
+    <DiscoverContext.Provider value={feed}>
+      {children}
+    </DiscoverContext.Provider>
+  );
+};
+
+export const useDiscover = (): DiscoverContextType => {
+  const context = useContext(DiscoverContext);
+  if (context === undefined) {
+    throw new Error('useDiscover must be used within a DiscoverProvider');
+  }
+  return context;
+};
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from 'react';
+import { apiService, BlockedUser } from '../services/api';
+
+export function useBlockedUsers() {
+  const [users, setUsers] = useState<BlockedUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      setUsers(await apiService.getBlockedUsers());
+      setError(null);
+    } catch (err: any) {
+      console.error('Error fetching blocked users:', err);
+      setError(err.message || 'Không thể tải danh sách chặn');
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  // Initial load
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const refresh = useCallback(() => {
+    setIsRefreshing(true);
+    return fetchUsers();
+  }, [fetchUsers]);
+
+  const unblock = useCallback(async (userId: string) => {
+    await apiService.unblockUser(userId);
+    setUsers(prev => prev.filter(user => user._id !== userId));
+  }, []);
+
+  return {
+    users,
+    isLoading,
+    isRefreshing,
+    error,
+    refresh,
+    unblock,
+  };
+}
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { apiService, BoostReport, BoostStatus } from '../services/api';
+
+export function useBoost(onBoostEnded?: (report: BoostReport | null) => void) {
+  const [status, setStatus] = useState<BoostStatus | null>(null);
+  const [remainingSeconds, setRemainingSeconds] = useState(0);
+  const onBoostEndedRef = useRef(onBoostEnded);
+
+  useEffect(() => {
+    onBoostEndedRef.current = onBoostEnded;
+  }, [onBoostEnded]);
+
+  const applyStatus = useCallback((nextStatus: BoostStatus) => {
+    setStatus(nextStatus);
+    setRemainingSeconds(nextStatus.active ? nextStatus.remainingSeconds : 0);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    try {
+      applyStatus(await apiService.getBoostStatus());
+    } catch (error) {
+      console.error('Error fetching boost status:', error);
+    }
+  }, [applyStatus]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const isActive = !!status?.active && remainingSeconds > 0;
+
+  // Count down locally while the boost is running
+  useEffect(() => {
+    if (!isActive) return;
+
+    const timer = setInterval(() => {
+      setRemainingSeconds(prev => Math.max(prev - 1, 0));
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [isActive]);
+
+  // Once the countdown runs out, fetch the final numbers for the report
+  useEffect(() => {
+    if (!status?.active || remainingSeconds > 0) return;
+
+    apiService.getBoostStatus()
+      .then(nextStatus => {
+        applyStatus(nextStatus);
+        if (!nextStatus.active) {
+          onBoostEndedRef.current?.(nextStatus.report);
+        }
+      })
+      .catch(error => console.error('Error fetching boost report:', error));
+  }, [status?.active, remainingSeconds, applyStatus]);
+
+  const start = useCallback(async () => {
+    applyStatus(await apiService.startBoost());
+  }, [applyStatus]);
+
+  return {
+    isActive,
+    remainingSeconds,
+    report: status?.report ?? null,
+    start,
+    refresh,
+  };
+}
@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { apiService, MatchSummary, Message } from '../services/api';
+
+const PAGE_SIZE = 30;
+
+// With focusMessageId the first load goes back far enough to include that message
+export function useConversation(matchId: string, focusMessageId?: string) {
+  const [match, setMatch] = useState<MatchSummary | null>(null);
+  // Newest first, which is what an inverted list renders from the bottom up
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isFetchingMore, setIsFetchingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pageRef = useRef(1);
+  const isFetchingRef = useRef(false);
+
+  const fetchPage = useCallback(async (page: number) => {
+    if (isFetchingRef.current) return;
+    isFetchingRef.current = true;
+
+    if (page > 1) {
+      setIsFetchingMore(true);
+    }
+
+    try {
+      // Fetching the messages also marks them as read
+      const [matchDetails, focused] = await Promise.all([
+        page === 1 ? apiService.getMatch(matchId) : Promise.resolve(null),
+        page === 1 && focusMessageId
+          // A deleted message falls back to the latest page
+          ? apiService.getMatchMessages(matchId, undefined, PAGE_SIZE, focusMessageId).catch(() => null)
+          : Promise.resolve(null),
+      ]);
+
+      // Everything newer than the focused message's page is loaded too, so the list has no gap
+      const pages = focused
+        ? [
+            ...(await Promise.all(
+              Array.from({ length: focused.pagination.page - 1 }, (_, i) =>
+                apiService.getMatchMessages(matchId, i + 1, PAGE_SIZE)
+              )
+            )),
+            focused,
+          ]
+        : [await apiService.getMatchMessages(matchId, page, PAGE_SIZE)];
+      const lastPage = pages[pages.length - 1];
+      const newestFirst = pages.flatMap(result => [...result.messages].reverse());
+
+      if (matchDetails) {
+        setMatch(matchDetails);
+      }
+      setMessages(prev => (page === 1 ? newestFirst : [...prev, ...newestFirst]));
+      setHasMore(lastPage.messages.length === PAGE_SIZE);
+      pageRef.current = lastPage.pagination.page;
+      setError(null);
+    } catch (err: any) {
+      console.error('Error fetching conversation:', err);
+      setError(err.message || 'Không thể tải cuộc trò chuyện');
+    } finally {
+      isFetchingRef.current = false;
+      setIsLoading(false);
+      setIsFetchingMore(false);
+    }
+  }, [matchId, focusMessageId]);
+
+  // Initial load
+  useEffect(() => {
+    fetchPage(1);
+  }, [fetchPage]);
+
+  const reload = useCallback(() => fetchPage(1), [fetchPage]);
+
+  const loadOlder = useCallback(() => {
+    if (hasMore) {
+      fetchPage(pageRef.current + 1);
+    }
+  }, [hasMore, fetchPage]);
+
+  const send = useCallback(async (content: string) => {
+    const message = await apiService.sendMessage({ matchId, content });
+    setMessages(prev => [message, ...prev]);
+  }, [matchId]);
+
+  return {
+    match,
+    messages,
+    isLoading,
+    isFetchingMore,
+    hasMore,
+    error,
+    reload,
+    loadOlder,
+    send,
+  };
+}
@@ -0,0 +1,195 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Image } from 'react-native';
+import { apiService, DeckExhaustion, RewindResult, SwipeAction, SwipeResult, UserProfile } from '../services/api';
+
+const BATCH_SIZE = 10;
+// Fetch the next batch once this many cards (or fewer) are left in the deck
+const PREFETCH_THRESHOLD = 3;
+// Number of upcoming cards whose photos are downloaded ahead of time
+const PRELOAD_AHEAD = 3;
+// The discover endpoint accepts at most 100 excluded IDs
+const MAX_EXCLUDE = 100;
+
+interface DeckState {
+  profiles: UserProfile[];
+  currentIndex: number;
+}
+
+export function useDiscoverFeed() {
+  const [deck, setDeck] = useState<DeckState>({ profiles: [], currentIndex: 0 });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isFetchingMore, setIsFetchingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [superLikesRemaining, setSuperLikesRemaining] = useState<number | null>(null);
+  // Why the deck ran out, from the last (empty) batch; null while more profiles are available
+  const [exhaustion, setExhaustion] = useState<DeckExhaustion | null>(null);
+
+  const deckRef = useRef<DeckState>(deck);
+  const isFetchingRef = useRef(false);
+  // Bumped by every fetch; a response from an older fetch is stale and dropped
+  const fetchIdRef = useRef(0);
+
+  useEffect(() => {
+    deckRef.current = deck;
+  }, [deck]);
+
+  const { profiles, currentIndex } = deck;
+
+  // A reset (e.g. after the filters or Passport changed) always runs and supersedes a running prefetch,
+  // whose profiles were fetched with the old preferences. A prefetch never starts while another fetch runs.
+  const fetchBatch = useCallback(async (reset: boolean) => {
+    if (!reset && isFetchingRef.current) return;
+    const fetchId = ++fetchIdRef.current;
+    isFetchingRef.current = true;
+
+    if (reset) {
+      setIsLoading(true);
+    } else {
+      setIsFetchingMore(true);
+    }
+
+    try {
+      // Everything already in the deck is excluded so a prefetch never returns duplicates
+      const exclude = reset ? [] : deckRef.current.profiles.map(profile => profile._id).slice(-MAX_EXCLUDE);
+      const {
+        users,
+        superLikesRemaining: remaining,
+        exhaustion: nextExhaustion,
+      } = await apiService.getDiscoverUsers(BATCH_SIZE, exclude);
+      if (fetchId !== fetchIdRef.current) return;
+
+      setDeck(prev => {
+        const base = reset ? [] : prev.profiles;
+        const knownIds = new Set(base.map(profile => profile._id));
+        return {
+          profiles: [...base, ...users.filter(profile => !knownIds.has(profile._id))],
+          currentIndex: reset ? 0 : prev.currentIndex,
+        };
+      });
+      // Keep asking until a batch comes back empty, which is the one that explains why the deck ran out
+      setHasMore(users.length > 0);
+      setSuperLikesRemaining(remaining);
+      setExhaustion(nextExhaustion ?? null);
+      setError(null);
+    } catch (err: any) {
+      if (fetchId !== fetchIdRef.current) return;
+      console.error('Error fetching discover feed:', err);
+      setError(err.message || 'Không thể tải danh sách hồ sơ');
+    } finally {
+      if (fetchId === fetchIdRef.current) {
+        isFetchingRef.current = false;
+        setIsLoading(false);
+        setIsFetchingMore(false);
+      }
+    }
+  }, []);
+
+  // Initial load
+  useEffect(() => {
+    fetchBatch(true);
+  }, [fetchBatch]);
+
+  // Prefetch the next batch in the background when the deck runs low
+  useEffect(() => {
+    const remaining = profiles.length - currentIndex;
+    if (!isLoading && hasMore && !error && remaining <= PREFETCH_THRESHOLD) {
+      fetchBatch(false);
+    }
+  }, [currentIndex, profiles.length, isLoading, hasMore, error, fetchBatch]);
+
+  // Warm the image cache for the cards coming up next
+  useEffect(() => {
+    profiles
+      .slice(currentIndex + 1, currentIndex + 1 + PRELOAD_AHEAD)
+      .forEach(profile => {
+        if (profile.mainPhoto) {
+          Image.prefetch(profile.mainPhoto).catch(() => {});
+        }
+      });
+  }, [currentIndex, profiles]);
+
+  // Swipes optimistically: the card leaves the deck right away and is put back
+  // on top if the server rejects the swipe.
+  const swipe = useCallback(async (action: SwipeAction): Promise<SwipeResult> => {
+    const profile = deckRef.current.profiles[deckRef.current.currentIndex];
+    if (!profile) {
+      throw new Error('Không còn hồ sơ nào để vuốt');
+    }
+
+    // Keep the ref ahead of the next render so back-to-back swipes target different cards
+    deckRef.current = { ...deckRef.current, currentIndex: deckRef.current.currentIndex + 1 };
+    setDeck(prev => ({ ...prev, currentIndex: prev.currentIndex + 1 }));
+
+    try {
+      const response = await apiService.swipe(profile._id, action);
+      if (response.data.superLikesRemaining !== undefined) {
+        setSuperLikesRemaining(response.data.superLikesRemaining);
+      }
+      return response.data;
+    } catch (err: any) {
+      // The server already has this swipe, so the card can stay gone
+      if (err.message === 'Already swiped on this user') {
+        return { action, match: false };
+      }
+
+      setDeck(prev => {
+        const remaining = prev.profiles.filter(p => p._id !== profile._id);
+        const restoreIndex = Math.max(prev.currentIndex - 1, 0);
+        remaining.splice(restoreIndex, 0, profile);
+        return { profiles: remaining, currentIndex: restoreIndex };
+      });
+      throw err;
+    }
+  }, []);
+
+  // Undoes the last swipe and puts that profile back on top of the deck
+  const rewind = useCallback(async (): Promise<RewindResult> => {
+    // A rewound super like still counts towards today's quota, so the remaining count stays as is
+    const result = await apiService.rewind();
+    const rewoundUser = result.user;
+
+    // Nothing to put back when the profile is no longer available
+    if (!rewoundUser) {
+      return result;
+    }
+
+    setDeck(prev => {
+      const previous = prev.profiles[prev.currentIndex - 1];
+      if (previous && previous._id === rewoundUser._id) {
+        return { ...prev, currentIndex: prev.currentIndex - 1 };
+      }
+
+      // Otherwise move (or, if swiped in an earlier session, insert) the card on top
+      const existingIndex = prev.profiles.findIndex(profile => profile._id === rewoundUser._id);
+      const profiles = prev.profiles.filter(profile => profile._id !== rewoundUser._id);
+      const insertIndex = existingIndex !== -1 && existingIndex < prev.currentIndex
+        ? prev.currentIndex - 1
+        : prev.currentIndex;
+      profiles.splice(insertIndex, 0, rewoundUser);
+      return { profiles, currentIndex: insertIndex };
+    });
+
+    return result;
+  }, []);
+
+  const reload = useCallback(() => fetchBatch(true), [fetchBatch]);
+
+  const retry = useCallback(() => fetchBatch(deckRef.current.profiles.length === 0), [fetchBatch]);
+
+  return {
+    profiles,
+    currentIndex,
+    currentProfile: profiles[currentIndex] ?? null,
+    isLoading,
+    isFetchingMore,
+    hasMore,
+    error,
+    superLikesRemaining,
+    exhaustion,
+    swipe,
+    rewind,
+    reload,
+    retry,
+  };
+}
@@ -0,0 +1,91 @@
+import { useCallback, useRef, useState } from 'react';
+import { apiService, ReceivedLike, ReceivedLikePreview, SwipeAction, SwipeResult } from '../services/api';
+
+const PAGE_SIZE = 20;
+
+export function useLikesReceived() {
+  const [likes, setLikes] = useState<ReceivedLike[]>([]);
+  const [previews, setPreviews] = useState<ReceivedLikePreview[]>([]);
+  const [count, setCount] = useState(0);
+  const [isPremium, setIsPremium] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isFetchingMore, setIsFetchingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pageRef = useRef(1);
+  const isFetchingRef = useRef(false);
+
+  const fetchPage = useCallback(async (page: number) => {
+    if (isFetchingRef.current) return;
+    isFetchingRef.current = true;
+
+    if (page > 1) {
+      setIsFetchingMore(true);
+    }
+
+    try {
+      const result = await apiService.getLikesReceived(page, PAGE_SIZE);
+
+      setCount(result.count);
+      setIsPremium(result.isPremium);
+      if (result.isPremium) {
+        setLikes(prev => (page === 1 ? result.users : [...prev, ...result.users]));
+        setPreviews([]);
+        setHasMore(page * PAGE_SIZE < result.count);
+      } else {
+        setLikes([]);
+        setPreviews(result.users);
+        setHasMore(false);
+      }
+      pageRef.current = page;
+      setError(null);
+    } catch (err: any) {
+      console.error('Error fetching likes received:', err);
+      setError(err.message || 'Không thể tải danh sách lượt thích');
+    } finally {
+      isFetchingRef.current = false;
+      setIsLoading(false);
+      setIsRefreshing(false);
+      setIsFetchingMore(false);
+    }
+  }, []);
+
+  const reload = useCallback(() => fetchPage(1), [fetchPage]);
+
+  const refresh = useCallback(() => {
+    setIsRefreshing(true);
+    return fetchPage(1);
+  }, [fetchPage]);
+
+  const loadMore = useCallback(() => {
+    if (hasMore) {
+      fetchPage(pageRef.current + 1);
+    }
+  }, [hasMore, fetchPage]);
+
+  // Liking back creates the match right away; either way the person leaves the list
+  const respond = useCallback(async (userId: string, action: SwipeAction): Promise<SwipeResult> => {
+    const response = await apiService.swipe(userId, action);
+    setLikes(prev => prev.filter(like => like._id !== userId));
+    setCount(prev => Math.max(prev - 1, 0));
+    return response.data;
+  }, []);
+
+  return {
+    likes,
+    previews,
+    count,
+    isPremium,
+    isLoading,
+    isRefreshing,
+    isFetchingMore,
+    hasMore,
+    error,
+    reload,
+    refresh,
+    loadMore,
+    respond,
+  };
+}
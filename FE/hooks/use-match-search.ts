@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react';
+import { apiService, MatchSummary, MessageSearchResult } from '../services/api';
+
+const DEBOUNCE_MS = 300;
+const RESULT_LIMIT = 20;
+
+// Searches matches by name and conversations by content while the user types
+export function useMatchSearch(query: string) {
+  const [people, setPeople] = useState<MatchSummary[]>([]);
+  const [messages, setMessages] = useState<MessageSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const trimmedQuery = query.trim();
+
+  useEffect(() => {
+    if (!trimmedQuery) {
+      setPeople([]);
+      setMessages([]);
+      setIsSearching(false);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+
+    const timeout = setTimeout(async () => {
+      try {
+        const [matchResult, messageResult] = await Promise.all([
+          apiService.getMatches(1, RESULT_LIMIT, { q: trimmedQuery }),
+          apiService.searchMessages(trimmedQuery, { limit: RESULT_LIMIT }),
+        ]);
+        if (cancelled) return;
+        setPeople(matchResult.matches);
+        setMessages(messageResult.messages);
+        setError(null);
+      } catch (err: any) {
+        if (cancelled) return;
+        console.error('Error searching matches:', err);
+        setError(err.message || 'Không thể tìm kiếm');
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [trimmedQuery]);
+
+  return {
+    people,
+    messages,
+    isSearching,
+    error,
+  };
+}
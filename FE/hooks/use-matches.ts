@@ -0,0 +1,77 @@
+import { useCallback, useRef, useState } from 'react';
+import { apiService, MatchListType, MatchSummary } from '../services/api';
+
+const PAGE_SIZE = 20;
+
+export function useMatches(type?: MatchListType) {
+  const [matches, setMatches] = useState<MatchSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isFetchingMore, setIsFetchingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pageRef = useRef(1);
+  const isFetchingRef = useRef(false);
+
+  const fetchPage = useCallback(async (page: number) => {
+    if (isFetchingRef.current) return;
+    isFetchingRef.current = true;
+
+    if (page > 1) {
+      setIsFetchingMore(true);
+    }
+
+    try {
+      const result = await apiService.getMatches(page, PAGE_SIZE, { type });
+      setMatches(prev => (page === 1 ? result.matches : [...prev, ...result.matches]));
+      setTotal(result.pagination.total);
+      pageRef.current = page;
+      setError(null);
+    } catch (err: any) {
+      console.error('Error fetching matches:', err);
+      setError(err.message || 'Không thể tải danh sách matches');
+    } finally {
+      isFetchingRef.current = false;
+      setIsLoading(false);
+      setIsRefreshing(false);
+      setIsFetchingMore(false);
+    }
+  }, [type]);
+
+  const hasMore = matches.length < total;
+
+  const reload = useCallback(() => fetchPage(1), [fetchPage]);
+
+  const refresh = useCallback(() => {
+    setIsRefreshing(true);
+    return fetchPage(1);
+  }, [fetchPage]);
+
+  const loadMore = useCallback(() => {
+    if (hasMore) {
+      fetchPage(pageRef.current + 1);
+    }
+  }, [hasMore, fetchPage]);
+
+  // Drops a match that was unmatched, by either side
+  const removeMatch = useCallback((matchId: string) => {
+    if (!matches.some(match => match._id === matchId)) return;
+    setMatches(prev => prev.filter(match => match._id !== matchId));
+    setTotal(prev => Math.max(prev - 1, 0));
+  }, [matches]);
+
+  return {
+    matches,
+    total,
+    isLoading,
+    isRefreshing,
+    isFetchingMore,
+    hasMore,
+    error,
+    reload,
+    refresh,
+    loadMore,
+    removeMatch,
+  };
+}
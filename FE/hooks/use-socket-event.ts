@@ -0,0 +1,25 @@
+import { useEffect, useRef } from 'react';
+import { getSocket } from '../services/socket';
+
+// Listens to a Socket.IO event for as long as the component is mounted
+export function useSocketEvent<T>(event: string, handler: (payload: T) => void) {
+  // Always call the latest handler without resubscribing on every render
+  const handlerRef = useRef(handler);
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    const listener = (payload: T) => handlerRef.current(payload);
+
+    getSocket().then(socket => {
+      if (!cancelled) socket?.on(event, listener);
+    });
+
+    return () => {
+      cancelled = true;
+      getSocket().then(socket => socket?.off(event, listener));
+    };
+  }, [event]);
+}
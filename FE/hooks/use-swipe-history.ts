@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { apiService, SwipeHistoryEntry, SwipeHistoryType, SwipeResult } from '../services/api';
+
+const PAGE_SIZE = 20;
+
+export function useSwipeHistory(type: SwipeHistoryType) {
+  const [entries, setEntries] = useState<SwipeHistoryEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isFetchingMore, setIsFetchingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pageRef = useRef(1);
+  const isFetchingRef = useRef(false);
+
+  const fetchPage = useCallback(async (page: number) => {
+    if (isFetchingRef.current) return;
+    isFetchingRef.current = true;
+
+    if (page > 1) {
+      setIsFetchingMore(true);
+    }
+
+    try {
+      const result = await apiService.getSwipeHistory(type, page, PAGE_SIZE);
+      setEntries(prev => (page === 1 ? result.entries : [...prev, ...result.entries]));
+      setTotal(result.pagination.total);
+      pageRef.current = page;
+      setError(null);
+    } catch (err: any) {
+      console.error('Error fetching swipe history:', err);
+      setError(err.message || 'Không thể tải lịch sử');
+    } finally {
+      isFetchingRef.current = false;
+      setIsLoading(false);
+      setIsRefreshing(false);
+      setIsFetchingMore(false);
+    }
+  }, [type]);
+
+  // Initial load
+  useEffect(() => {
+    fetchPage(1);
+  }, [fetchPage]);
+
+  const hasMore = entries.length < total;
+
+  const refresh = useCallback(() => {
+    setIsRefreshing(true);
+    return fetchPage(1);
+  }, [fetchPage]);
+
+  const loadMore = useCallback(() => {
+    if (hasMore) {
+      fetchPage(pageRef.current + 1);
+    }
+  }, [hasMore, fetchPage]);
+
+  // Changing a pass into a like moves the profile out of the Passed list
+  const likePassed = useCallback(async (userId: string): Promise<SwipeResult> => {
+    const result = await apiService.likeFromHistory(userId);
+    setEntries(prev => prev.filter(entry => entry.user._id !== userId));
+    setTotal(prev => Math.max(prev - 1, 0));
+    return result;
+  }, []);
+
+  return {
+    entries,
+    total,
+    isLoading,
+    isRefreshing,
+    isFetchingMore,
+    hasMore,
+    error,
+    refresh,
+    loadMore,
+    likePassed,
+  };
+}
@@ -10,6 +10,29 @@ const API_BASE_URL = Platform.OS === 'android'
   ? 'http://localhost:3000/api' // Use localhost for web platform
   : 'http://192.168.1.33:3000/api'; // Use network IP for iOS
 
+// Socket.IO is served by the same server, outside of /api
+export const SOCKET_URL = API_BASE_URL.replace(/\/api$/, '');
+
+export interface Photo {
+  _id: string;
+  url: string;
+  isMain: boolean;
+  uploadedAt: string;
+}
+
+export interface Location {
+  type: string;
+  coordinates: number[];
+  city: string;
+  country: string;
+}
+
+// Passport mode: browsing from another city (a key from constants/cities) instead of the real location
+export interface Passport {
+  city: string | null;
+  startedAt: string | null;
+}
+
 export interface User {
   _id: string;
   name: string;
@@ -19,18 +42,10 @@ export interface User {
   interestedIn: 'male' | 'female' | 'both';
   role: 'user' | 'admin';
   bio: string;
-  photos: Array<{
-    _id: string;
-    url: string;
-    isMain: boolean;
-    uploadedAt: string;
-  }>;
-  location: {
-    type: string;
-    coordinates: number[];
-    city: string;
-    country: string;
-  };
+  interests: string[];
+  photos: Photo[];
+  location: Location;
+  passport: Passport;
   preferences: {
     ageRange: {
       min: number;
@@ -38,11 +53,304 @@ export interface User {
     };
     maxDistance: number;
   };
+  isPremium: boolean;
+  // Only shown in discovery to people this user has liked
+  isIncognito: boolean;
   isOnline: boolean;
   lastActive: string;
   createdAt: string;
 }
 
+// Compatibility breakdown returned to admins by /users/discover?debug=true (each component is 0-1)
+export interface CompatibilityScore {
+  total: number;
+  distance: number;
+  recency: number;
+  sharedInterests: number;
+  mutualFit: number;
+  completeness: number;
+}
+
+// Public profile returned by /users/discover and /users/profile/:userId
+export interface UserProfile extends Omit<User, 'email' | 'role' | 'location'> {
+  // Other users' exact coordinates are never sent, only the city and country
+  location: Pick<Location, 'city' | 'country'>;
+  mainPhoto: string | null;
+  // Rounded distance in km, null when either user has no location or they browse via Passport
+  distance: number | null;
+  superLikedMe?: boolean;
+  // Only returned by /users/profile/:userId
+  sharedInterests?: string[];
+  // Only returned to admins by /users/discover?debug=true
+  score?: CompatibilityScore;
+}
+
+// Populated user reference embedded in matches and messages
+export interface UserSummary {
+  _id: string;
+  name: string;
+  photos: Photo[];
+  age?: number;
+  bio?: string;
+  lastActive?: string;
+  isOnline?: boolean;
+  location?: Pick<Location, 'city'>;
+}
+
+export type BlockedUser = Pick<UserSummary, '_id' | 'name' | 'photos'>;
+
+export type SwipeAction = 'like' | 'pass' | 'superlike';
+
+export type MessageType = 'text' | 'image' | 'gif' | 'emoji';
+
+export interface Message {
+  _id: string;
+  match: string;
+  sender: UserSummary;
+  recipient: UserSummary;
+  content?: string;
+  messageType: MessageType;
+  imageUrl?: string;
+  gifUrl?: string;
+  isRead: boolean;
+  readAt: string | null;
+  isDelivered: boolean;
+  deliveredAt: string | null;
+  editedAt: string | null;
+  replyTo: (Pick<Message, '_id' | 'content' | 'messageType'> & { sender: string }) | null;
+  timestamp?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Search hits carry the unpopulated match reference
+export interface MessageSearchResult extends Omit<Message, 'match'> {
+  match: {
+    _id: string;
+    users: string[];
+  };
+}
+
+export interface LastMessage {
+  _id: string;
+  content?: string;
+  sender: string;
+  messageType: MessageType;
+  isRead: boolean;
+  createdAt: string;
+}
+
+// Raw match document, e.g. the matchDetails of a successful swipe
+export interface Match {
+  _id: string;
+  users: UserSummary[];
+  messages: string[];
+  lastMessage: string | null;
+  lastActivity: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Match as seen by one of its users (GET /matches, GET /matches/:matchId)
+export interface MatchSummary {
+  _id: string;
+  user: UserSummary;
+  lastMessage: LastMessage | null;
+  lastActivity: string;
+  createdAt: string;
+  // True until this user opens the match for the first time
+  isNew: boolean;
+  unreadCount: number;
+}
+
+// New matches have no messages yet, conversations have at least one
+export type MatchListType = 'new' | 'conversations';
+
+export type UnmatchReason = 'no_connection' | 'not_responding' | 'inappropriate' | 'met_someone' | 'other';
+
+export type ReportReason = 'fake_profile' | 'harassment' | 'spam' | 'underage' | 'other';
+
+export interface ReportData {
+  reason: ReportReason;
+  description?: string;
+  // Only accepted when reporting from a match, and only messages the reported user sent
+  evidenceMessageIds?: string[];
+}
+
+export interface Report {
+  _id: string;
+  reportedUser: string;
+  match: string | null;
+  reason: ReportReason;
+  description: string;
+  evidenceMessages: string[];
+  status: 'pending' | 'reviewed' | 'resolved' | 'dismissed';
+  createdAt: string;
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+}
+
+export interface SwipeResult {
+  action: SwipeAction;
+  match: boolean;
+  matchDetails?: Match;
+  superLikesRemaining?: number;
+}
+
+export type DeckExhaustionReason = 'everyoneSwiped' | 'distance' | 'ageRange';
+
+// A relaxed preference and how many more profiles it would bring into the deck
+export type DeckSuggestion =
+  | { preference: 'maxDistance'; value: number; count: number }
+  | { preference: 'ageRange'; value: { min: number; max: number }; count: number };
+
+export interface DeckExhaustion {
+  reasons: DeckExhaustionReason[];
+  // Profiles matching the current preferences that were all swiped on already
+  swipedCount: number;
+  suggestions: DeckSuggestion[];
+}
+
+export interface DiscoverResult {
+  users: UserProfile[];
+  count: number;
+  superLikesRemaining: number;
+  // Only set when the batch is empty because nobody is left to show
+  exhaustion: DeckExhaustion | null;
+}
+
+export interface RewindResult {
+  // null when the profile was deleted or is now hidden from this user; the swipe is undone anyway
+  user: UserProfile | null;
+  action: SwipeAction;
+  dissolvedMatchId: string | null;
+  rewindsRemaining: number;
+}
+
+export interface BoostReport {
+  startedAt: string;
+  endsAt: string;
+  views: number;
+  likes: number;
+  baselineLikes: number;
+  extraLikes: number;
+}
+
+export interface BoostStatus {
+  active: boolean;
+  endsAt: string | null;
+  remainingSeconds: number;
+  report: BoostReport | null;
+}
+
+// Someone who liked me, as seen with premium
+export interface ReceivedLike
+  extends Pick<UserProfile, '_id' | 'name' | 'age' | 'gender' | 'bio' | 'interests' | 'photos' | 'location' | 'passport' | 'isOnline' | 'lastActive' | 'mainPhoto'> {
+  likedAt: string;
+  superLike: boolean;
+}
+
+// Without premium likes only come as anonymous previews: no photo or other detail that could identify the liker
+export interface ReceivedLikePreview {
+  superLike: boolean;
+}
+
+export type LikesReceivedResult =
+  | { isPremium: true; count: number; users: ReceivedLike[]; pagination: Pagination }
+  | { isPremium: false; count: number; users: ReceivedLikePreview[]; pagination: Pagination };
+
+export type SwipeHistoryType = 'like' | 'pass';
+
+export interface SwipeHistoryEntry {
+  user: Pick<UserProfile, '_id' | 'name' | 'age' | 'gender' | 'bio' | 'interests' | 'photos' | 'location' | 'passport' | 'isOnline' | 'lastActive' | 'mainPhoto'>;
+  action: SwipeAction;
+  swipedAt: string;
+  // Only set for passes: when the profile becomes eligible for the deck again
+  returnsAt?: string;
+}
+
+export interface SwipeHistoryResult {
+  type: SwipeHistoryType;
+  entries: SwipeHistoryEntry[];
+  pagination: Pagination;
+}
+
+export interface UserStats {
+  swipes: {
+    total: number;
+    likes: number;
+    superLikes: number;
+    superLikesRemaining: number;
+    passes: number;
+    recentWeek: number;
+    likeRate: string | number;
+  };
+  matches: MatchStats;
+  profile: {
+    completeness: number;
+    photosCount: number;
+    joinedDate: string;
+    lastActive: string;
+  };
+}
+
+export interface MatchStats {
+  totalMatches: number;
+  recentMatches: number;
+  matchesWithMessages: number;
+  conversionRate: string | number;
+}
+
+export interface MatchStatsOverview extends MatchStats {
+  unreadMatchesCount: number;
+  totalUnreadMessages: number;
+  averageResponseTime: string;
+  bestMatchingDay: string;
+}
+
+export interface RecentActivity {
+  period: string;
+  recentMatches: Match[];
+  recentMessages: Message[];
+  summary: {
+    newMatches: number;
+    messagesSent: number;
+    messagesReceived: number;
+  };
+}
+
+export interface MessageStats {
+  totalSent: number;
+  totalReceived: number;
+  unreadReceived: number;
+  todaysSent: number;
+  messageTypes: Partial<Record<MessageType, number>>;
+  averageLength: number;
+  averageResponseTime: string;
+  mostActiveHour: string;
+  streak: number;
+}
+
+export interface SendMessageData {
+  matchId: string;
+  content?: string;
+  messageType?: MessageType;
+  imageUrl?: string;
+  gifUrl?: string;
+  replyTo?: string;
+}
+
+export interface LocationUpdate {
+  coordinates: [number, number];
+  city?: string;
+  country?: string;
+}
+
 export interface LoginCredentials {
   email: string;
   password: string;
@@ -57,6 +365,7 @@ export interface RegisterData {
   interestedIn: 'male' | 'female' | 'both';
   role?: 'user' | 'admin';
   bio?: string;
+  interests?: string[];
   location?: {
     coordinates?: number[];
     city?: string;
@@ -74,6 +383,23 @@ export interface AuthResponse {
   errors?: any[];
 }
 
+export interface APIResponse<T> {
+  success: boolean;
+  message: string;
+  data: T;
+}
+
+type QueryParams = Record<string, string | number | boolean | undefined>;
+
+const buildQuery = (params: QueryParams): string => {
+  const query = Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+
+  return query ? `?${query}` : '';
+};
+
 class APIService {
   private async getAuthToken(): Promise<string | null> {
     return await AsyncStorage.getItem('auth_token');
@@ -174,6 +500,257 @@ class APIService {
     });
   }
 
+  // Users
+
+  async getDiscoverUsers(
+    limit?: number,
+    exclude: string[] = []
+  ): Promise<DiscoverResult> {
+    const response: APIResponse<DiscoverResult> = await this.makeRequest(
+      `/users/discover${buildQuery({ limit, exclude: exclude.length ? exclude.join(',') : undefined })}`
+    );
+    return response.data;
+  }
+
+  async swipe(targetUserId: string, action: SwipeAction): Promise<APIResponse<SwipeResult>> {
+    return await this.makeRequest('/users/swipe', {
+      method: 'POST',
+      body: JSON.stringify({ targetUserId, action }),
+    });
+  }
+
+  async rewind(): Promise<RewindResult> {
+    const response: APIResponse<RewindResult> = await this.makeRequest('/users/rewind', {
+      method: 'POST',
+    });
+    return response.data;
+  }
+
+  async getSwipeHistory(type: SwipeHistoryType, page = 1, limit = 20): Promise<SwipeHistoryResult> {
+    const response: APIResponse<SwipeHistoryResult> =
+      await this.makeRequest(`/users/history${buildQuery({ type, page, limit })}`);
+    return response.data;
+  }
+
+  async likeFromHistory(userId: string): Promise<SwipeResult> {
+    const response: APIResponse<SwipeResult> = await this.makeRequest(`/users/history/${userId}/like`, {
+      method: 'POST',
+    });
+    return response.data;
+  }
+
+  async getBoostStatus(): Promise<BoostStatus> {
+    const response: APIResponse<BoostStatus> = await this.makeRequest('/users/boost');
+    return response.data;
+  }
+
+  async startBoost(): Promise<BoostStatus> {
+    const response: APIResponse<BoostStatus> = await this.makeRequest('/users/boost', {
+      method: 'POST',
+    });
+    return response.data;
+  }
+
+  async getLikesReceived(page = 1, limit = 20): Promise<LikesReceivedResult> {
+    const response: APIResponse<LikesReceivedResult> =
+      await this.makeRequest(`/users/likes-received${buildQuery({ page, limit })}`);
+    return response.data;
+  }
+
+  async getUserProfile(userId: string): Promise<UserProfile> {
+    const response: APIResponse<{ user: UserProfile; sharedInterests: string[]; distance: number | null }> =
+      await this.makeRequest(`/users/profile/${userId}`);
+    const { user, sharedInterests, distance } = response.data;
+    return { ...user, sharedInterests, distance };
+  }
+
+  async reportUser(userId: string, report: Omit<ReportData, 'evidenceMessageIds'>): Promise<Report> {
+    const response: APIResponse<{ report: Report }> = await this.makeRequest(`/users/profile/${userId}/report`, {
+      method: 'POST',
+      body: JSON.stringify(report),
+    });
+    return response.data.report;
+  }
+
+  async uploadPhoto(photoUrl: string, isMain = false): Promise<Photo[]> {
+    const response: APIResponse<{ photos: Photo[] }> = await this.makeRequest('/users/upload-photo', {
+      method: 'POST',
+      body: JSON.stringify({ photoUrl, isMain }),
+    });
+    return response.data.photos;
+  }
+
+  async deletePhoto(photoId: string): Promise<Photo[]> {
+    const response: APIResponse<{ photos: Photo[] }> = await this.makeRequest(`/users/delete-photo/${photoId}`, {
+      method: 'DELETE',
+    });
+    return response.data.photos;
+  }
+
+  async setMainPhoto(photoId: string): Promise<Photo[]> {
+    const response: APIResponse<{ photos: Photo[] }> = await this.makeRequest(`/users/set-main-photo/${photoId}`, {
+      method: 'PUT',
+    });
+    return response.data.photos;
+  }
+
+  async updateLocation(location: LocationUpdate): Promise<Location> {
+    const response: APIResponse<{ location: Location }> = await this.makeRequest('/users/update-location', {
+      method: 'PUT',
+      body: JSON.stringify(location),
+    });
+    return response.data.location;
+  }
+
+  async setPassport(city: string): Promise<Passport> {
+    const response: APIResponse<{ passport: Passport }> = await this.makeRequest('/users/passport', {
+      method: 'PUT',
+      body: JSON.stringify({ city }),
+    });
+    return response.data.passport;
+  }
+
+  async clearPassport(): Promise<Passport> {
+    const response: APIResponse<{ passport: Passport }> = await this.makeRequest('/users/passport', {
+      method: 'DELETE',
+    });
+    return response.data.passport;
+  }
+
+  async getBlockedUsers(): Promise<BlockedUser[]> {
+    const response: APIResponse<{ users: BlockedUser[] }> = await this.makeRequest('/users/blocked');
+    return response.data.users;
+  }
+
+  async blockUser(userId: string): Promise<APIResponse<undefined>> {
+    return await this.makeRequest(`/users/blocked/${userId}`, {
+      method: 'POST',
+    });
+  }
+
+  async unblockUser(userId: string): Promise<APIResponse<undefined>> {
+    return await this.makeRequest(`/users/blocked/${userId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getUserStats(): Promise<UserStats> {
+    const response: APIResponse<UserStats> = await this.makeRequest('/users/stats');
+    return response.data;
+  }
+
+  // Matches
+
+  async getMatches(
+    page?: number,
+    limit?: number,
+    options: { type?: MatchListType; q?: string } = {}
+  ): Promise<{ matches: MatchSummary[]; pagination: Pagination }> {
+    const response: APIResponse<{ matches: MatchSummary[]; pagination: Pagination }> =
+      await this.makeRequest(`/matches${buildQuery({ page, limit, ...options })}`);
+    return response.data;
+  }
+
+  async getMatch(matchId: string): Promise<MatchSummary> {
+    const response: APIResponse<{ match: MatchSummary }> = await this.makeRequest(`/matches/${matchId}`);
+    return response.data.match;
+  }
+
+  async unmatch(matchId: string, reason?: UnmatchReason): Promise<APIResponse<undefined>> {
+    return await this.makeRequest(`/matches/${matchId}`, {
+      method: 'DELETE',
+      body: JSON.stringify({ reason }),
+    });
+  }
+
+  // With around set, page is ignored and the page containing that message is returned
+  async getMatchMessages(
+    matchId: string,
+    page?: number,
+    limit?: number,
+    around?: string
+  ): Promise<{ messages: Message[]; pagination: Pagination }> {
+    const response: APIResponse<{ messages: Message[]; pagination: Pagination }> =
+      await this.makeRequest(`/matches/${matchId}/messages${buildQuery({ page, limit, around })}`);
+    return response.data;
+  }
+
+  async getMatchStats(): Promise<MatchStatsOverview> {
+    const response: APIResponse<MatchStatsOverview> = await this.makeRequest('/matches/stats/overview');
+    return response.data;
+  }
+
+  async getRecentActivity(days?: number): Promise<RecentActivity> {
+    const response: APIResponse<RecentActivity> =
+      await this.makeRequest(`/matches/activity/recent${buildQuery({ days })}`);
+    return response.data;
+  }
+
+  async reportMatch(matchId: string, report: ReportData): Promise<Report> {
+    const response: APIResponse<{ report: Report }> = await this.makeRequest(`/matches/${matchId}/report`, {
+      method: 'POST',
+      body: JSON.stringify(report),
+    });
+    return response.data.report;
+  }
+
+  // Messages
+
+  async sendMessage(message: SendMessageData): Promise<Message> {
+    const response: APIResponse<{ message: Message }> = await this.makeRequest('/messages', {
+      method: 'POST',
+      body: JSON.stringify(message),
+    });
+    return response.data.message;
+  }
+
+  async getUnreadCount(): Promise<number> {
+    const response: APIResponse<{ unreadCount: number }> = await this.makeRequest('/messages/unread-count');
+    return response.data.unreadCount;
+  }
+
+  async markMessageRead(messageId: string): Promise<Message> {
+    const response: APIResponse<{ message: Message }> = await this.makeRequest(`/messages/${messageId}/read`, {
+      method: 'PUT',
+    });
+    return response.data.message;
+  }
+
+  async markAllMessagesRead(matchId: string): Promise<number> {
+    const response: APIResponse<{ modifiedCount: number }> =
+      await this.makeRequest(`/messages/match/${matchId}/read-all`, {
+        method: 'PUT',
+      });
+    return response.data.modifiedCount;
+  }
+
+  async deleteMessage(messageId: string): Promise<APIResponse<undefined>> {
+    return await this.makeRequest(`/messages/${messageId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async editMessage(messageId: string, content: string): Promise<Message> {
+    const response: APIResponse<{ message: Message }> = await this.makeRequest(`/messages/${messageId}/edit`, {
+      method: 'PUT',
+      body: JSON.stringify({ content }),
+    });
+    return response.data.message;
+  }
+
+  async getMessageStats(): Promise<MessageStats> {
+    const response: APIResponse<MessageStats> = await this.makeRequest('/messages/stats');
+    return response.data;
+  }
+
+  async searchMessages(
+    q: string,
+    options: { matchId?: string; limit?: number } = {}
+  ): Promise<{ messages: MessageSearchResult[]; query: string; total: number }> {
+    const response: APIResponse<{ messages: MessageSearchResult[]; query: string; total: number }> = await this.makeRequest(`/messages/search${buildQuery({ q, ...options })}`);
+    return response.data;
+  }
+
   async checkHealth(): Promise<{ status: string; message: string }> {
     const response = await fetch(`${API_BASE_URL}/health`);
     return await response.json();
@@ -0,0 +1,40 @@
+// Socket.IO connection for real-time events from the API
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { io, Socket } from 'socket.io-client';
+import { SOCKET_URL } from './api';
+
+// Payload of the `unmatched` event, also sent when a rewind dissolves a match
+export interface UnmatchedEvent {
+  matchId: string;
+  unmatchedBy: string;
+  message: string;
+}
+
+let socket: Socket | null = null;
+
+// Returns the shared socket, connecting with the stored auth token the first time
+export async function getSocket(): Promise<Socket | null> {
+  if (socket) return socket;
+
+  const token = await AsyncStorage.getItem('auth_token');
+  if (!token) return null;
+
+  // Another caller may have connected while the token was being read
+  if (!socket) {
+    socket = io(SOCKET_URL, {
+      auth: { token },
+      transports: ['websocket'],
+    });
+    socket.on('connect_error', error => {
+      console.error('Socket connection error:', error.message);
+    });
+  }
+
+  return socket;
+}
+
+// Called on logout so the next user connects with their own token
+export function disconnectSocket() {
+  socket?.disconnect();
+  socket = null;
+}